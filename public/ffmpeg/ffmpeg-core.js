@@ -1,2 +0,0 @@
-// This is a placeholder to indicate where the FFmpeg core files should be placed.
-// The actual ffmpeg-core.js file will be downloaded at runtime.
\ No newline at end of file
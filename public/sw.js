@@ -0,0 +1,84 @@
+// Caches the app shell, the built bundles and the ffmpeg core so recording,
+// trimming, conversion, exports and saved meetings work offline. API calls
+// are never cached. Paths are resolved against the worker's scope so the app
+// can be served from a sub-path.
+
+// Filled in with the hashed bundles by the build (see vite.config.ts)
+const BUILD_FILES = [];
+
+const APP_FILES = [
+  './',
+  'index.html',
+  'manifest.webmanifest',
+  'icon.svg',
+  'ffmpeg/ffmpeg-core.js',
+  'ffmpeg/ffmpeg-core.wasm'
+];
+
+const toScopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+// Each build gets its own cache, so stale bundles are dropped on activate
+const CACHE_NAME = 'meeting-minutes-' + [...BUILD_FILES.join('|')]
+  .reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7)
+  .toString(36);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll([...APP_FILES, ...BUILD_FILES].map(toScopeUrl)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Pages come from the network when possible so deployments show up right away
+async function networkFirst(request) {
+  const indexUrl = toScopeUrl('index.html');
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      cache.put(indexUrl, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(indexUrl);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.includes('/api/')) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else {
+    // Built assets have content hashes in their names, so cached copies never go stale
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -0,0 +1,29 @@
+// Copies the ffmpeg core from node_modules into public/ so the app serves it
+// itself instead of loading it from a CDN. Runs after every npm install.
+import { copyFile, mkdir, stat } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+// The ffmpeg worker is an ES module, so it needs the ESM build of the core
+const source = join(root, 'node_modules/@ffmpeg/core/dist/esm');
+const target = join(root, 'public/ffmpeg');
+const files = ['ffmpeg-core.js', 'ffmpeg-core.wasm'];
+
+async function isUpToDate(from, to) {
+  try {
+    const [a, b] = await Promise.all([stat(from), stat(to)]);
+    return a.size === b.size && a.mtimeMs <= b.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+await mkdir(target, { recursive: true });
+for (const file of files) {
+  const from = join(source, file);
+  const to = join(target, file);
+  if (await isUpToDate(from, to)) continue;
+  await copyFile(from, to);
+  console.log(`Copied ${file} to public/ffmpeg`);
+}
@@ -0,0 +1,48 @@
+import { AIProviders } from '../src/services/providers/types';
+import { createAzureOpenAIProviders, createOpenAIProviders } from './openaiProvider';
+
+export type ServerProviderName = 'openai' | 'azure';
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+const DEFAULT_ANALYSIS_MODEL = 'gpt-4';
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+// Variables from .env are loaded when present; real environment variables win
+try {
+  process.loadEnvFile();
+} catch {
+  // No .env file
+}
+
+const env = process.env;
+
+export const PORT = Number(env.PORT) || 8787;
+
+export function getProviderName(): ServerProviderName {
+  return env.AI_PROVIDER === 'azure' ? 'azure' : 'openai';
+}
+
+export function isProviderConfigured(): boolean {
+  return getProviderName() === 'azure'
+    ? Boolean(env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT)
+    : Boolean(env.OPENAI_API_KEY);
+}
+
+export function createProviders(): AIProviders {
+  if (getProviderName() === 'azure') {
+    return createAzureOpenAIProviders({
+      apiKey: env.AZURE_OPENAI_API_KEY ?? '',
+      endpoint: env.AZURE_OPENAI_ENDPOINT ?? '',
+      apiVersion: env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+      transcriptionDeployment: env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL,
+      analysisDeployment: env.ANALYSIS_MODEL || DEFAULT_ANALYSIS_MODEL
+    });
+  }
+
+  return createOpenAIProviders({
+    apiKey: env.OPENAI_API_KEY ?? '',
+    baseURL: env.OPENAI_BASE_URL,
+    transcriptionModel: env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL,
+    analysisModel: env.ANALYSIS_MODEL || DEFAULT_ANALYSIS_MODEL
+  });
+}
@@ -0,0 +1,183 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, isAbsolute, join, normalize, relative, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { APIError } from 'openai';
+import { AnalysisRequest } from '../src/services/providers/types';
+import { PORT, createProviders, getProviderName, isProviderConfigured } from './config';
+
+// Keeps the API key on the server: the browser only talks to these endpoints.
+// In production it also serves the built app from dist/.
+
+const MAX_AUDIO_BYTES = 26 * 1024 * 1024;
+const MAX_JSON_BYTES = 2 * 1024 * 1024;
+const DIST_DIR = resolve(fileURLToPath(new URL('.', import.meta.url)), '../dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.wasm': 'application/wasm',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json'
+};
+
+// ffmpeg.wasm needs cross-origin isolation, same as the Vite dev server
+const ISOLATION_HEADERS = {
+  'Cross-Origin-Embedder-Policy': 'require-corp',
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Resource-Policy': 'cross-origin'
+};
+
+const providers = isProviderConfigured() ? createProviders() : null;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...ISOLATION_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+// Aborts when the browser goes away (e.g. the user cancelled), so the model
+// call stops too instead of running, and being billed, to completion
+function abortOnDisconnect(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+function requireProviders() {
+  if (!providers) {
+    throw new HttpError(503, 'The AI provider is not configured on the server');
+  }
+  return providers;
+}
+
+async function handleTranscribe(req: IncomingMessage, res: ServerResponse, url: URL) {
+  const { transcription } = requireProviders();
+  const audio = await readBody(req, MAX_AUDIO_BYTES);
+  if (audio.length === 0) {
+    throw new HttpError(400, 'No audio was uploaded');
+  }
+
+  const transcript = await transcription.transcribe({
+    audio: new Blob([audio], { type: req.headers['content-type'] || 'audio/wav' }),
+    language: url.searchParams.get('language') || undefined
+  }, { signal: abortOnDisconnect(res) });
+  sendJson(res, 200, transcript);
+}
+
+async function handleAnalyze(req: IncomingMessage, res: ServerResponse) {
+  const { analysis } = requireProviders();
+
+  let request: AnalysisRequest;
+  try {
+    request = JSON.parse((await readBody(req, MAX_JSON_BYTES)).toString('utf8'));
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+  if (!Array.isArray(request?.messages) || typeof request.purpose !== 'string') {
+    throw new HttpError(400, 'Request must include a purpose and messages');
+  }
+
+  const content = await analysis.complete(request, { signal: abortOnDisconnect(res) });
+  sendJson(res, 200, { content });
+}
+
+async function serveStatic(res: ServerResponse, pathname: string) {
+  const candidate = normalize(join(DIST_DIR, decodeURIComponent(pathname)));
+  // A prefix check would let "../dist-other" through
+  const inside = relative(DIST_DIR, candidate);
+  let filePath = inside === '..' || inside.startsWith('..' + sep) || isAbsolute(inside) ? join(DIST_DIR, 'index.html') : candidate;
+
+  try {
+    if (!(await stat(filePath)).isFile()) {
+      filePath = join(DIST_DIR, 'index.html');
+    }
+  } catch {
+    // Unknown paths fall back to the single-page app
+    filePath = join(DIST_DIR, 'index.html');
+  }
+
+  try {
+    const data = await readFile(filePath);
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[extname(filePath)] ?? 'application/octet-stream',
+      ...ISOLATION_HEADERS
+    });
+    res.end(data);
+  } catch {
+    throw new HttpError(404, 'Not found. Run "npm run build" to serve the app from this server.');
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        provider: getProviderName(),
+        configured: isProviderConfigured()
+      });
+    } else if (req.method === 'POST' && url.pathname === '/api/transcribe') {
+      await handleTranscribe(req, res, url);
+    } else if (req.method === 'POST' && url.pathname === '/api/analyze') {
+      await handleAnalyze(req, res);
+    } else if (url.pathname.startsWith('/api/')) {
+      throw new HttpError(404, 'Unknown endpoint');
+    } else if (req.method === 'GET') {
+      await serveStatic(res, url.pathname);
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (res.destroyed) {
+      // The client disconnected; there is nobody left to answer
+      return;
+    }
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+    } else if (error instanceof APIError) {
+      // Pass upstream failures (rate limits, bad keys) through with their status
+      console.error('Provider error:', error.message);
+      sendJson(res, error.status ?? 502, { error: error.message });
+    } else {
+      console.error('Server error:', error);
+      sendJson(res, 500, { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT} (provider: ${getProviderName()})`);
+  if (!isProviderConfigured()) {
+    console.warn('The AI provider is not configured. Set OPENAI_API_KEY (or the AZURE_OPENAI_* variables) in .env.');
+  }
+});
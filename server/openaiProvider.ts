@@ -0,0 +1,91 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { Transcript } from '../src/types/transcript';
+import {
+  AIProviders,
+  AnalysisProvider,
+  AnalysisRequest,
+  RequestOptions,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from '../src/services/providers/types';
+
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  // Points the SDK at an OpenAI-compatible server instead of api.openai.com
+  baseURL?: string;
+  transcriptionModel: string;
+  analysisModel: string;
+}
+
+export interface AzureOpenAIProviderConfig {
+  apiKey: string;
+  endpoint: string;
+  apiVersion: string;
+  // Azure addresses models by deployment name
+  transcriptionDeployment: string;
+  analysisDeployment: string;
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  constructor(private client: OpenAI, private model: string) {}
+
+  async transcribe({ audio, language }: TranscriptionRequest, { signal }: RequestOptions = {}): Promise<Transcript> {
+    const transcription = await this.client.audio.transcriptions.create({
+      file: new File([audio], 'audio.wav', { type: audio.type || 'audio/wav' }),
+      model: this.model,
+      language,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['segment']
+    }, { signal });
+
+    return {
+      text: transcription.text,
+      duration: Number(transcription.duration),
+      language: transcription.language,
+      segments: (transcription.segments ?? []).map(segment => ({
+        id: segment.id,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim()
+      }))
+    };
+  }
+}
+
+export class OpenAIAnalysisProvider implements AnalysisProvider {
+  constructor(private client: OpenAI, private model: string) {}
+
+  async complete({ messages }: AnalysisRequest, { signal }: RequestOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      response_format: { type: "json_object" }
+    }, { signal });
+    return response.choices[0].message.content ?? '';
+  }
+}
+
+export function createOpenAIProviders(config: OpenAIProviderConfig): AIProviders {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL || undefined
+  });
+
+  return {
+    transcription: new OpenAITranscriptionProvider(client, config.transcriptionModel),
+    analysis: new OpenAIAnalysisProvider(client, config.analysisModel)
+  };
+}
+
+export function createAzureOpenAIProviders(config: AzureOpenAIProviderConfig): AIProviders {
+  const client = new AzureOpenAI({
+    apiKey: config.apiKey,
+    endpoint: config.endpoint,
+    apiVersion: config.apiVersion
+  });
+
+  return {
+    transcription: new OpenAITranscriptionProvider(client, config.transcriptionDeployment),
+    analysis: new OpenAIAnalysisProvider(client, config.analysisDeployment)
+  };
+}
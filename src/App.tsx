@@ -1,33 +1,46 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AudioRecorder } from './components/AudioRecorder';
 import { AudioUploader } from './components/AudioUploader';
-import { AudioWaveform } from './components/AudioWaveform';
-import { ClientForm } from './components/ClientForm';
+import { AudioWaveform, AudioWaveformHandle } from './components/AudioWaveform';
+import { BatchQueue } from './components/BatchQueue';
+import { BatchSetup } from './components/BatchSetup';
+import { ClientForm, ProcessingOptions } from './components/ClientForm';
+import { MeetingHistory } from './components/MeetingHistory';
 import { MinutesDisplay } from './components/MinutesDisplay';
-import { AudioProcessor } from './services/audioProcessor';
-import { Headphones, FileAudio, ClipboardList, AlertCircle, XCircle } from 'lucide-react';
+import { PreprocessingPanel } from './components/PreprocessingPanel';
+import { useHistory } from './hooks/useHistory';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { SpeakerLabels } from './components/SpeakerLabels';
+import { TranscriptViewer } from './components/TranscriptViewer';
+import { AudioProcessor, ProcessStage, ProcessingDetails } from './services/audioProcessor';
+import { getAudioProfile, getSelectedAudioProfileId, setSelectedAudioProfileId } from './services/audioProfiles';
+import { getMeeting, saveMeeting, updateMeeting } from './services/meetingStore';
+import { analyzeTranscript, processMeeting } from './services/pipeline';
+import { BatchEntry, BatchJob, ProcessingQueue } from './services/processingQueue';
+import { isOnline } from './services/connectivity';
+import { checkProviderHealth } from './services/providers';
+import { EditRegion } from './types/edits';
+import { ClientData, SavedMeeting } from './types/meeting';
+import { Minutes } from './types/minutes';
+import { Transcript } from './types/transcript';
+import { formatTimestamp } from './utils/formatTime';
+import { getCutList, getKeptDuration, getRemovedRanges } from './utils/cutList';
+import { getSpeakerColor, getSpeakerTurns } from './utils/speakers';
+import { Headphones, FileAudio, ClipboardList, AlertCircle, XCircle, RefreshCw, RotateCcw, History, Plus, Layers, Mic, Upload, WifiOff } from 'lucide-react';
 
-interface ClientData {
-  clientName: string;
-  meetingTitle: string;
-  date: string;
-}
+// 'offline' still lets the app run; AI requests wait until the connection is back
+type ServerStatus = 'checking' | 'ready' | 'offline' | 'unconfigured' | 'unreachable';
 
-interface Minutes {
-  topics: Array<{
-    title: string;
-    keyPoints: string[];
-    actionItems: string[];
-  }>;
+interface Interruption {
+  stage: ProcessStage;
+  reason: 'failed' | 'cancelled';
 }
 
-interface ProcessingDetails {
-  bitrate?: string;
-  sampleRate?: string;
-  duration?: string;
-  size?: string;
-  format?: string;
-  stage?: string;
-}
+const STAGE_LABELS: Record<ProcessStage, string> = {
+  converting: 'audio conversion',
+  transcribing: 'transcription',
+  analyzing: 'analysis'
+};
 
 interface ProgressStatus {
   stage: 'converting' | 'transcribing' | 'analyzing';
@@ -42,11 +55,32 @@ interface ProgressStatus {
 function App() {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [clientData, setClientData] = useState<ClientData | null>(null);
-  const [minutes, setMinutes] = useState<Minutes | null>(null);
+  const minutesHistory = useHistory<Minutes | null>(null);
+  const minutes = minutesHistory.value;
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [liveTranscript, setLiveTranscript] = useState<Transcript | null>(null);
+  const [editRegions, setEditRegions] = useState<EditRegion[]>([]);
+  const [sourceDuration, setSourceDuration] = useState(0);
+  const [audioProfileId, setAudioProfileId] = useState(getSelectedAudioProfileId);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [speakerNamesChanged, setSpeakerNamesChanged] = useState(false);
+  const [reanalyzing, setReanalyzing] = useState(false);
+  const [translating, setTranslating] = useState(false);
+  const waveformRef = useRef<AudioWaveformHandle>(null);
   const [processing, setProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when a run fails or is cancelled, so it can be resumed from that stage
+  const [interruption, setInterruption] = useState<Interruption | null>(null);
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions | null>(null);
   const [step, setStep] = useState(1);
   const [audioProcessor, setAudioProcessor] = useState<AudioProcessor | null>(null);
+  const [serverStatus, setServerStatus] = useState<ServerStatus>('checking');
+  const [view, setView] = useState<'workflow' | 'history' | 'batch'>('workflow');
+  const [savedMeetingId, setSavedMeetingId] = useState<string | null>(null);
+  const [inputMode, setInputMode] = useState<'upload' | 'record'>('upload');
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const batchQueueRef = useRef<ProcessingQueue | null>(null);
   const [progressStatus, setProgressStatus] = useState<ProgressStatus>({
     stage: 'converting',
     progress: {
@@ -56,20 +90,106 @@ function App() {
     }
   });
 
-  const handleFileSelect = (file: File) => {
+  const online = useOnlineStatus();
+
+  const checkServer = useCallback(async () => {
+    if (!isOnline()) {
+      setServerStatus('offline');
+      return;
+    }
+    setServerStatus('checking');
+    try {
+      const health = await checkProviderHealth();
+      setServerStatus(health.configured ? 'ready' : 'unconfigured');
+    } catch (err) {
+      console.error('API server health check failed:', err);
+      setServerStatus('unreachable');
+    }
+  }, []);
+
+  useEffect(() => {
+    checkServer();
+  }, [checkServer]);
+
+  useEffect(() => {
+    if (online && serverStatus === 'offline') {
+      checkServer();
+    }
+  }, [online, serverStatus, checkServer]);
+
+  useEffect(() => () => batchQueueRef.current?.cancelAll(), []);
+
+  // Keep the saved copy in sync with edits to the minutes and speaker names
+  useEffect(() => {
+    if (!savedMeetingId || !minutes || !transcript) return;
+
+    const timeout = setTimeout(() => {
+      updateMeeting(savedMeetingId, { minutes, transcript }).catch(err =>
+        console.error('Failed to update saved meeting:', err)
+      );
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [savedMeetingId, minutes, transcript]);
+
+  const handleFileSelect = (file: File, recordedTranscript?: Transcript) => {
     setAudioFile(file);
+    setLiveTranscript(recordedTranscript ?? null);
+    setEditRegions([]);
     setStep(2);
     setError(null);
   };
 
+  const handleFilesSelect = (files: File[]) => {
+    setBatchFiles(files);
+    setView('batch');
+    setError(null);
+  };
+
+  const getBatchQueue = () => {
+    if (!batchQueueRef.current) {
+      batchQueueRef.current = new ProcessingQueue(jobs => setBatchJobs(jobs));
+    }
+    return batchQueueRef.current;
+  };
+
+  const handleStartBatch = (entries: BatchEntry[]) => {
+    if (serverStatus !== 'ready' && serverStatus !== 'offline') {
+      setError('The API server is not available. Please check that it is running and configured.');
+      return;
+    }
+    getBatchQueue().add(entries);
+    setBatchFiles(null);
+  };
+
+  const handleOpenBatchMeeting = async (meetingId: string) => {
+    try {
+      const meeting = await getMeeting(meetingId);
+      if (!meeting) {
+        throw new Error('Meeting not found in history');
+      }
+      handleOpenMeeting(meeting);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const resetState = () => {
     setAudioFile(null);
     setClientData(null);
-    setMinutes(null);
+    minutesHistory.reset(null);
+    setTranscript(null);
+    setLiveTranscript(null);
+    setEditRegions([]);
+    setPlaybackTime(0);
+    setSpeakerNamesChanged(false);
+    setReanalyzing(false);
     setProcessing(false);
     setError(null);
+    setInterruption(null);
+    setProcessingOptions(null);
     setStep(1);
     setAudioProcessor(null);
+    setSavedMeetingId(null);
     setProgressStatus({
       stage: 'converting',
       progress: {
@@ -80,51 +200,160 @@ function App() {
     });
   };
 
+  // The running pipeline rejects with 'Operation cancelled' and the submit handler records it
   const handleCancel = useCallback(() => {
-    if (audioProcessor) {
-      audioProcessor.cancel();
-      resetState();
-    }
+    if (!audioProcessor) return;
+    setProgressStatus(status => ({ ...status, details: { stage: 'Cancelling...' } }));
+    audioProcessor.cancel();
   }, [audioProcessor]);
 
-  const handleClientFormSubmit = async (data: ClientData) => {
-    if (!import.meta.env.VITE_OPENAI_API_KEY) {
-      setError('OpenAI API key is not configured. Please add it to your .env file.');
+  const handleClientFormSubmit = async (data: ClientData, options: ProcessingOptions) => {
+    if (serverStatus !== 'ready' && serverStatus !== 'offline') {
+      setError('The API server is not available. Please check that it is running and configured.');
       return;
     }
 
+    let currentStage: ProcessStage = 'converting';
+    const processor = new AudioProcessor((stage, progress, details) => {
+      currentStage = stage;
+      setProgressStatus({
+        stage,
+        progress,
+        details
+      });
+    });
+
     try {
       setProcessing(true);
       setClientData(data);
+      setProcessingOptions(options);
       setStep(3);
       setError(null);
-
-      const processor = new AudioProcessor((stage, progress, details) => {
-        setProgressStatus({
-          stage,
-          progress,
-          details
-        });
-      });
+      setInterruption(null);
       setAudioProcessor(processor);
 
-      const wavBlob = await processor.convertToWav(audioFile!);
-      const transcription = await processor.transcribeAudio(wavBlob);
-      const processedMinutes = await processor.segmentByTopics(transcription);
+      const { transcript: processedTranscript, minutes: processedMinutes } =
+        await processMeeting(processor, audioFile!, data, {
+          liveTranscript: liveTranscript ?? undefined,
+          cutList: editRegions.length > 0 ? getCutList(editRegions, sourceDuration) : undefined,
+          profile: getAudioProfile(audioProfileId),
+          onTranscript: setTranscript
+        });
 
-      setMinutes(processedMinutes);
+      minutesHistory.reset(processedMinutes);
       setProcessing(false);
+
+      try {
+        const saved = await saveMeeting({
+          clientData: data,
+          transcript: processedTranscript,
+          minutes: processedMinutes,
+          audio: options.saveAudio ? audioFile! : undefined,
+          audioName: options.saveAudio ? audioFile!.name : undefined
+        });
+        setSavedMeetingId(saved.id);
+      } catch (saveError) {
+        // The minutes are still usable; only the history entry is missing
+        console.error('Failed to save meeting to history:', saveError);
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       if (errorMessage === 'Operation cancelled') {
-        resetState();
+        setInterruption({ stage: currentStage, reason: 'cancelled' });
       } else {
         setError(errorMessage);
-        setProcessing(false);
+        setInterruption({ stage: currentStage, reason: 'failed' });
       }
+      setProcessing(false);
+    } finally {
+      processor.dispose();
+      setAudioProcessor(null);
     }
   };
 
+  // Finished stages are cached by the pipeline, so running it again resumes at the failed one
+  const handleRetry = () => {
+    if (clientData && processingOptions) {
+      handleClientFormSubmit(clientData, processingOptions);
+    }
+  };
+
+  const handleOpenMeeting = (meeting: SavedMeeting) => {
+    resetState();
+    setClientData(meeting.clientData);
+    setTranscript(meeting.transcript);
+    minutesHistory.reset(meeting.minutes);
+    setAudioFile(meeting.audio
+      ? new File([meeting.audio], meeting.audioName ?? 'recording', { type: meeting.audio.type })
+      : null);
+    setSavedMeetingId(meeting.id);
+    setStep(3);
+    setView('workflow');
+  };
+
+  const handleNewMeeting = () => {
+    resetState();
+    setView('workflow');
+  };
+
+  const handleRenameSpeaker = (speakerId: string, name: string) => {
+    setTranscript(current => current && {
+      ...current,
+      speakers: current.speakers?.map(speaker =>
+        speaker.id === speakerId ? { ...speaker, name } : speaker
+      )
+    });
+    setSpeakerNamesChanged(true);
+  };
+
+  const handleApplySpeakerNames = async () => {
+    if (!transcript || !clientData) return;
+
+    try {
+      setReanalyzing(true);
+      setError(null);
+      const processor = new AudioProcessor(() => {});
+      minutesHistory.set(await analyzeTranscript(processor, transcript, clientData));
+      setSpeakerNamesChanged(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
+  // Edits only change the original minutes, so the translation is refreshed on request
+  const handleUpdateTranslation = async () => {
+    const language = minutes?.translation?.language;
+    if (!minutes || !language) return;
+
+    try {
+      setTranslating(true);
+      setError(null);
+      const processor = new AudioProcessor(() => {});
+      minutesHistory.set({ ...minutes, translation: await processor.translateMinutes(minutes, language) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setTranslating(false);
+    }
+  };
+
+  const speakerRegions = useMemo(() => {
+    if (!transcript) return [];
+    const turns = transcript.speakers ? getSpeakerTurns(transcript) : [];
+    const removed = transcript.cutList ? getRemovedRanges(transcript.cutList) : [];
+    return [
+      ...turns.map(turn => ({
+        start: turn.start,
+        end: turn.end,
+        color: `${getSpeakerColor(transcript.speakers!, turn.speaker.id)}33`,
+        label: turn.speaker.name
+      })),
+      ...removed.map(range => ({ ...range, color: 'rgba(107, 114, 128, 0.3)', label: 'Cut' }))
+    ];
+  }, [transcript]);
+
   const getProgressMessage = (status: ProgressStatus) => {
     const currentProgress = Math.round(status.progress[status.stage] * 100);
     const getStageProgress = (stage: keyof typeof status.progress) => 
@@ -149,6 +378,9 @@ function App() {
             {status.details.bitrate && <div>Bitrate: {status.details.bitrate}</div>}
             {status.details.sampleRate && <div>Sample Rate: {status.details.sampleRate}</div>}
             {status.details.duration && <div>Duration: {status.details.duration}</div>}
+            {status.details.filters && (
+              <div>Filters: <code className="text-xs break-all">{status.details.filters}</code></div>
+            )}
           </div>
         )}
 
@@ -190,7 +422,18 @@ function App() {
     );
   };
 
-  if (!import.meta.env.VITE_OPENAI_API_KEY) {
+  if (serverStatus === 'checking') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-50 flex items-center justify-center p-4">
+        <div className="text-center space-y-2">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+          <p className="text-gray-600">Connecting to the API server...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (serverStatus === 'unconfigured' || serverStatus === 'unreachable') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-50 flex items-center justify-center p-4">
         <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full">
@@ -198,19 +441,40 @@ function App() {
             <AlertCircle className="w-6 h-6" />
             <h2 className="text-xl font-semibold">Configuration Required</h2>
           </div>
-          <p className="text-gray-600 mb-4">
-            Please configure your OpenAI API key in the <code className="bg-gray-100 px-2 py-1 rounded">.env</code> file:
-          </p>
+          {serverStatus === 'unreachable' ? (
+            <p className="text-gray-600 mb-4">
+              The API server could not be reached. Start it alongside the app with:
+            </p>
+          ) : (
+            <p className="text-gray-600 mb-4">
+              The API server is running but has no API key. Add it to the server's <code className="bg-gray-100 px-2 py-1 rounded">.env</code> file and restart it:
+            </p>
+          )}
           <div className="bg-gray-50 p-4 rounded-md">
             <code className="text-sm text-gray-800">
-              VITE_OPENAI_API_KEY=your-openai-api-key-here
+              {serverStatus === 'unreachable' ? 'npm run server' : 'OPENAI_API_KEY=your-openai-api-key-here'}
             </code>
           </div>
+          <p className="text-sm text-gray-500 mt-4">
+            To try the app without an API key, set <code className="bg-gray-100 px-1 rounded">VITE_AI_PROVIDER=mock</code>.
+          </p>
+          <button
+            onClick={checkServer}
+            className="mt-6 inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Check again
+          </button>
         </div>
       </div>
     );
   }
 
+  // Null while nothing is cut
+  const keptDuration = editRegions.length > 0 && sourceDuration > 0
+    ? getKeptDuration(getCutList(editRegions, sourceDuration))
+    : null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 to-blue-50">
       <div className="max-w-4xl mx-auto px-4 py-12">
@@ -223,6 +487,46 @@ function App() {
           </p>
         </div>
 
+        {!online && (
+          <div className="bg-amber-50 border-l-4 border-amber-400 p-4 mb-4 flex items-start gap-3">
+            <WifiOff className="w-5 h-5 text-amber-600 mt-0.5" />
+            <p className="text-amber-800 text-sm">
+              You are offline. Recording, trimming, conversion and saved meetings still work.
+              Transcription and analysis will continue automatically once you are back online.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mb-4">
+          <button
+            onClick={handleNewMeeting}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm rounded-md text-gray-700 hover:bg-white/70"
+          >
+            <Plus className="w-4 h-4" />
+            New meeting
+          </button>
+          <button
+            onClick={() => setView('history')}
+            className={`inline-flex items-center gap-2 px-3 py-2 text-sm rounded-md ${
+              view === 'history' ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-700 hover:bg-white/70'
+            }`}
+          >
+            <History className="w-4 h-4" />
+            Meeting history
+          </button>
+          {batchJobs.length > 0 && (
+            <button
+              onClick={() => setView('batch')}
+              className={`inline-flex items-center gap-2 px-3 py-2 text-sm rounded-md ${
+                view === 'batch' ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-700 hover:bg-white/70'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Batch ({batchJobs.filter(job => job.status === 'done').length}/{batchJobs.length})
+            </button>
+          )}
+        </div>
+
         <div className="bg-white rounded-2xl shadow-xl p-8">
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-8 flex items-start gap-3">
@@ -231,9 +535,35 @@ function App() {
             </div>
           )}
 
+          {view === 'history' ? (
+            <MeetingHistory onOpen={handleOpenMeeting} />
+          ) : view === 'batch' ? (
+            batchFiles ? (
+              <BatchSetup
+                files={batchFiles}
+                onStart={handleStartBatch}
+                onCancel={() => {
+                  setBatchFiles(null);
+                  setView('workflow');
+                }}
+              />
+            ) : (
+              <BatchQueue
+                jobs={batchJobs}
+                onCancel={(id) => batchQueueRef.current?.cancel(id)}
+                onRetry={(id) => batchQueueRef.current?.retry(id)}
+                onOpen={handleOpenBatchMeeting}
+                onClear={() => {
+                  batchQueueRef.current?.clear();
+                  setView('workflow');
+                }}
+              />
+            )
+          ) : (
+          <>
           <div className="flex justify-between mb-8">
             {[
-              { icon: FileAudio, label: 'Upload Audio' },
+              { icon: FileAudio, label: inputMode === 'record' ? 'Record Audio' : 'Upload Audio' },
               { icon: Headphones, label: 'Review Audio' },
               { icon: ClipboardList, label: 'Generate Minutes' },
             ].map((s, i) => (
@@ -260,16 +590,77 @@ function App() {
           </div>
 
           <div className="mt-8">
-            {step === 1 && <AudioUploader onFileSelect={handleFileSelect} />}
+            {step === 1 && (
+              <div className="space-y-4">
+                <div className="flex justify-center gap-2">
+                  {([
+                    { mode: 'upload', icon: Upload, label: 'Upload a file' },
+                    { mode: 'record', icon: Mic, label: 'Record' }
+                  ] as const).map(option => (
+                    <button
+                      key={option.mode}
+                      onClick={() => setInputMode(option.mode)}
+                      className={`inline-flex items-center gap-2 px-4 py-2 text-sm rounded-md ${
+                        inputMode === option.mode ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      <option.icon className="w-4 h-4" />
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {inputMode === 'upload' ? (
+                  <AudioUploader onFileSelect={(file) => handleFileSelect(file)} onFilesSelect={handleFilesSelect} />
+                ) : (
+                  <AudioRecorder onRecordingComplete={handleFileSelect} />
+                )}
+              </div>
+            )}
             
             {step === 2 && audioFile && (
               <div className="space-y-8">
-                <AudioWaveform audioFile={audioFile} />
+                <AudioWaveform
+                  audioFile={audioFile}
+                  onReady={setSourceDuration}
+                  editRegions={editRegions}
+                  onEditRegionsChange={setEditRegions}
+                  onTimeUpdate={setPlaybackTime}
+                />
+                {!liveTranscript && (
+                  <PreprocessingPanel
+                    audioFile={audioFile}
+                    profileId={audioProfileId}
+                    onProfileChange={(id) => {
+                      setAudioProfileId(id);
+                      setSelectedAudioProfileId(id);
+                    }}
+                    previewStart={playbackTime}
+                  />
+                )}
+                {keptDuration !== null && (keptDuration > 0 ? (
+                  <p className="text-sm text-gray-600">
+                    Only {formatTimestamp(keptDuration)} of {formatTimestamp(sourceDuration)} will be transcribed.
+                  </p>
+                ) : (
+                  <p className="text-sm text-red-600">
+                    The cut parts cover the whole recording. Remove a cut to have something to transcribe.
+                  </p>
+                ))}
+                {liveTranscript && (
+                  <p className="text-sm text-gray-600 bg-indigo-50 rounded-md p-3">
+                    This recording was transcribed live ({liveTranscript.segments.length} segments), so only the analysis remains.
+                  </p>
+                )}
                 <div className="border-t pt-8">
                   <h3 className="text-lg font-medium text-gray-900 mb-4">
                     Meeting Details
                   </h3>
-                  <ClientForm onSubmit={handleClientFormSubmit} />
+                  <ClientForm
+                    onSubmit={handleClientFormSubmit}
+                    disabled={keptDuration === 0}
+                    initialData={clientData ?? undefined}
+                    detectedLanguage={(liveTranscript ?? transcript)?.language}
+                  />
                 </div>
               </div>
             )}
@@ -289,15 +680,93 @@ function App() {
               </div>
             )}
 
+            {step === 3 && !processing && !minutes && interruption && (
+              <div className="text-center py-12 space-y-6">
+                {interruption.reason === 'cancelled' && (
+                  <div className="flex items-center justify-center gap-2 text-xl font-medium text-gray-900">
+                    <XCircle className="w-6 h-6 text-gray-400" />
+                    Processing cancelled
+                  </div>
+                )}
+                <p className="text-gray-700">
+                  Processing stopped during {STAGE_LABELS[interruption.stage]}. The stages that finished are saved,
+                  so {interruption.reason === 'cancelled' ? 'resuming' : 'retrying'} continues from there.
+                </p>
+                <div className="flex justify-center gap-3">
+                  <button
+                    onClick={handleRetry}
+                    className="inline-flex items-center px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    {interruption.reason === 'cancelled' ? 'Resume' : 'Retry'} from {STAGE_LABELS[interruption.stage]}
+                  </button>
+                  {audioFile && (
+                    <button
+                      onClick={() => {
+                        setInterruption(null);
+                        setError(null);
+                        setStep(2);
+                      }}
+                      className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                    >
+                      Change settings
+                    </button>
+                  )}
+                  <button
+                    onClick={resetState}
+                    className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Start over
+                  </button>
+                </div>
+              </div>
+            )}
+
             {step === 3 && !processing && minutes && clientData && (
-              <MinutesDisplay
-                minutes={minutes}
-                clientName={clientData.clientName}
-                meetingTitle={clientData.meetingTitle}
-                date={clientData.date}
-              />
+              <div className="space-y-8">
+                {transcript && (
+                  <div className="space-y-4">
+                    {audioFile && (
+                      <AudioWaveform
+                        ref={waveformRef}
+                        audioFile={audioFile}
+                        regions={speakerRegions}
+                        onTimeUpdate={setPlaybackTime}
+                      />
+                    )}
+                    <SpeakerLabels
+                      speakers={transcript.speakers ?? []}
+                      onRename={handleRenameSpeaker}
+                      onApply={handleApplySpeakerNames}
+                      applying={reanalyzing}
+                      dirty={speakerNamesChanged}
+                    />
+                    <TranscriptViewer
+                      transcript={transcript}
+                      currentTime={playbackTime}
+                      onSeek={(time) => waveformRef.current?.seekTo(time, true)}
+                    />
+                  </div>
+                )}
+                <MinutesDisplay
+                  minutes={minutes}
+                  clientName={clientData.clientName}
+                  meetingTitle={clientData.meetingTitle}
+                  date={clientData.date}
+                  onMinutesChange={minutesHistory.set}
+                  onUndo={minutesHistory.undo}
+                  onRedo={minutesHistory.redo}
+                  canUndo={minutesHistory.canUndo}
+                  canRedo={minutesHistory.canRedo}
+                  onUpdateTranslation={handleUpdateTranslation}
+                  translating={translating}
+                  onPlayCitation={audioFile ? (citation) => waveformRef.current?.playRange(citation.start, citation.end) : undefined}
+                />
+              </div>
             )}
           </div>
+          </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,76 @@
+import { Calendar, User } from 'lucide-react';
+import { SourceLinks } from './SourceLinks';
+import { ActionItem, ActionItemPriority, Citation, StatementSource } from '../types/minutes';
+import { getTopicSourceKey } from '../utils/citations';
+import { ItemPosition } from '../utils/minutesEditing';
+
+export interface ActionItemEntry {
+  item: ActionItem;
+  position: ItemPosition;
+  topicTitle?: string;
+}
+
+interface ActionItemListProps {
+  entries: ActionItemEntry[];
+  onToggle?: (entry: ActionItemEntry) => void;
+  // The sources of the minutes the entries come from, keyed by position
+  sources?: Record<string, StatementSource>;
+  onPlayCitation?: (citation: Citation) => void;
+}
+
+const PRIORITY_STYLES: Record<ActionItemPriority, string> = {
+  high: 'bg-red-100 text-red-700',
+  medium: 'bg-amber-100 text-amber-700',
+  low: 'bg-gray-100 text-gray-600'
+};
+
+export function ActionItemList({ entries, onToggle, sources, onPlayCitation }: ActionItemListProps) {
+  return (
+    <ul className="list-none space-y-3">
+      {entries.map(entry => {
+        const { item, position } = entry;
+        const done = item.status === 'done';
+        return (
+          <li key={`${position.topic}-${position.index}`} className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={done}
+              disabled={!onToggle}
+              onChange={() => onToggle?.(entry)}
+              className="mt-1 h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+              aria-label={done ? 'Mark as open' : 'Mark as done'}
+            />
+            <div className="flex-1">
+              <p className={done ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                {item.description}
+                <SourceLinks
+                  source={sources?.[getTopicSourceKey(position.topic, 'actionItems', position.index)]}
+                  onPlay={onPlayCitation}
+                />
+              </p>
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                {entry.topicTitle && <span className="text-gray-500">{entry.topicTitle}</span>}
+                <span className="inline-flex items-center gap-1 text-gray-600">
+                  <User className="w-3 h-3" />
+                  {item.owner ?? 'Unassigned'}
+                </span>
+                {item.dueDate && (
+                  <span className="inline-flex items-center gap-1 text-gray-600">
+                    <Calendar className="w-3 h-3" />
+                    {item.dueDate}
+                  </span>
+                )}
+                <span className={`px-2 py-0.5 rounded-full ${PRIORITY_STYLES[item.priority]}`}>
+                  {item.priority}
+                </span>
+                {item.status === 'in_progress' && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">in progress</span>
+                )}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
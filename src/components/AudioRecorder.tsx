@@ -0,0 +1,297 @@
+import { useEffect, useRef, useState } from 'react';
+import { Mic, Pause, Play, Square, Trash2 } from 'lucide-react';
+import { LiveTranscriber } from '../services/liveTranscriber';
+import { BrowserRecorder, RecorderState, isRecordingSupported, isSystemAudioSupported } from '../services/recorder';
+import { LanguageCode } from '../types/language';
+import { Transcript } from '../types/transcript';
+import { formatTimestamp } from '../utils/formatTime';
+import { LANGUAGES } from '../utils/languages';
+
+interface AudioRecorderProps {
+  // The transcript is only passed when live transcription finished without errors
+  onRecordingComplete: (file: File, transcript?: Transcript) => void;
+}
+
+// One bar per sample; at ~20 samples a second the canvas shows the last few seconds
+const LEVEL_SAMPLE_MS = 50;
+const BAR_WIDTH = 3;
+
+export function AudioRecorder({ onRecordingComplete }: AudioRecorderProps) {
+  const recorderRef = useRef<BrowserRecorder | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const levelsRef = useRef<number[]>([]);
+  const transcriberRef = useRef<LiveTranscriber | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+  const [state, setState] = useState<RecorderState>('idle');
+  const [includeSystemAudio, setIncludeSystemAudio] = useState(false);
+  const [transcribeLive, setTranscribeLive] = useState(true);
+  // Unset detects the language of each part of the live transcript
+  const [spokenLanguage, setSpokenLanguage] = useState<LanguageCode | undefined>();
+  const [liveTranscript, setLiveTranscript] = useState<Transcript | null>(null);
+  const [finishing, setFinishing] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => {
+    recorderRef.current?.discard();
+    transcriberRef.current?.cancel();
+  }, []);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [liveTranscript]);
+
+  useEffect(() => {
+    if (state !== 'recording' && state !== 'paused') return;
+
+    let frame = 0;
+    let lastSample = 0;
+
+    const draw = (now: number) => {
+      const recorder = recorderRef.current;
+      const canvas = canvasRef.current;
+      if (!recorder) return;
+
+      setDuration(recorder.getDuration());
+      if (now - lastSample >= LEVEL_SAMPLE_MS) {
+        lastSample = now;
+        const current = recorder.getLevel();
+        setLevel(current);
+        if (recorder.state === 'recording') {
+          levelsRef.current.push(current);
+        }
+      }
+
+      if (canvas) {
+        const ctx = canvas.getContext('2d')!;
+        const { width, height } = canvas;
+        const visible = levelsRef.current.slice(-Math.floor(width / BAR_WIDTH));
+        ctx.clearRect(0, 0, width, height);
+        ctx.fillStyle = recorder.state === 'paused' ? '#9CA3AF' : '#4F46E5';
+        visible.forEach((value, i) => {
+          const barHeight = Math.max(1, value * height);
+          ctx.fillRect(i * BAR_WIDTH, (height - barHeight) / 2, BAR_WIDTH - 1, barHeight);
+        });
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [state]);
+
+  const handleStart = async () => {
+    setError(null);
+    const recorder = new BrowserRecorder();
+    const transcriber = transcribeLive ? new LiveTranscriber(setLiveTranscript, spokenLanguage) : null;
+    try {
+      await recorder.start({
+        includeSystemAudio,
+        onAudioData: transcriber ? (samples, sampleRate) => transcriber.appendSamples(samples, sampleRate) : undefined
+      });
+      recorderRef.current = recorder;
+      transcriberRef.current = transcriber;
+      setLiveTranscript(null);
+      levelsRef.current = [];
+      setDuration(0);
+      setState('recording');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start recording');
+    }
+  };
+
+  const handlePauseResume = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    if (recorder.state === 'recording') {
+      recorder.pause();
+    } else {
+      recorder.resume();
+    }
+    setState(recorder.state);
+  };
+
+  const handleStop = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    let file: File;
+    try {
+      file = await recorder.stop();
+      recorderRef.current = null;
+      setState('stopped');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop recording');
+      return;
+    }
+
+    const transcriber = transcriberRef.current;
+    transcriberRef.current = null;
+    if (!transcriber) {
+      onRecordingComplete(file);
+      return;
+    }
+
+    setFinishing(true);
+    try {
+      onRecordingComplete(file, await transcriber.finish());
+    } catch (err) {
+      // The recording is still complete; it will be transcribed from scratch
+      console.error('Live transcription failed:', err);
+      onRecordingComplete(file);
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!window.confirm('Discard this recording?')) return;
+    recorderRef.current?.discard();
+    recorderRef.current = null;
+    transcriberRef.current?.cancel();
+    transcriberRef.current = null;
+    setLiveTranscript(null);
+    setState('idle');
+    setDuration(0);
+    setLevel(0);
+  };
+
+  if (!isRecordingSupported()) {
+    return (
+      <div className="p-10 border-2 border-dashed rounded-xl text-center text-gray-500">
+        Recording is not supported in this browser. Please upload a file instead.
+      </div>
+    );
+  }
+
+  const active = state === 'recording' || state === 'paused';
+
+  const liveTranscriptPanel = liveTranscript && liveTranscript.segments.length > 0 && (
+    <div className="max-h-48 overflow-y-auto border rounded-md p-3 bg-gray-50 space-y-1 text-left">
+      {liveTranscript.segments.map(segment => (
+        <p key={segment.id} className="text-sm text-gray-700">
+          <span className="font-mono text-xs text-gray-400 mr-2">{formatTimestamp(segment.start)}</span>
+          {segment.text}
+        </p>
+      ))}
+      <div ref={transcriptEndRef} />
+    </div>
+  );
+
+  return (
+    <div className="p-10 border-2 border-dashed rounded-xl border-gray-300 space-y-6">
+      {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+
+      {finishing ? (
+        <div className="text-center space-y-4">
+          <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+          <p className="text-gray-600">Transcribing the last few seconds...</p>
+          {liveTranscriptPanel}
+        </div>
+      ) : active ? (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <span
+                className={`w-3 h-3 rounded-full ${state === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-gray-400'}`}
+              />
+              {state === 'recording' ? 'Recording' : 'Paused'}
+            </span>
+            <span className="text-2xl font-mono text-gray-900">{formatTimestamp(duration)}</span>
+          </div>
+
+          <canvas ref={canvasRef} width={600} height={80} className="w-full h-20 bg-gray-50 rounded-md" />
+
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 w-10">Level</span>
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${level > 0.9 ? 'bg-red-500' : 'bg-green-500'}`}
+                style={{ width: `${Math.round(level * 100)}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={handlePauseResume}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              {state === 'recording' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {state === 'recording' ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              onClick={handleStop}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+            >
+              <Square className="w-4 h-4" />
+              Stop and use recording
+            </button>
+            <button
+              onClick={handleDiscard}
+              className="inline-flex items-center gap-2 px-4 py-2 text-sm text-red-600 rounded-md hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4" />
+              Discard
+            </button>
+          </div>
+
+          {transcriberRef.current && (
+            liveTranscriptPanel || (
+              <p className="text-sm text-gray-500 text-center">
+                The live transcript appears here about every 30 seconds.
+              </p>
+            )
+          )}
+        </>
+      ) : (
+        <div className="flex flex-col items-center gap-4">
+          <button
+            onClick={handleStart}
+            className="w-16 h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center"
+            aria-label="Start recording"
+          >
+            <Mic className="w-8 h-8 text-white" />
+          </button>
+          <p className="text-lg font-medium text-gray-700">Record a meeting</p>
+          {isSystemAudioSupported() && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeSystemAudio}
+                onChange={(e) => setIncludeSystemAudio(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Also capture tab or system audio (for online calls)
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={transcribeLive}
+              onChange={(e) => setTranscribeLive(e.target.checked)}
+              className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Transcribe while recording
+          </label>
+          {transcribeLive && (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Spoken language
+              <select
+                value={spokenLanguage ?? ''}
+                onChange={(e) => setSpokenLanguage(e.target.value ? (e.target.value as LanguageCode) : undefined)}
+                className="rounded-md border-gray-300 text-sm focus:border-indigo-500 focus:ring-indigo-500"
+              >
+                <option value="">Auto-detect</option>
+                {LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code}>{language.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,43 @@
-import React, { useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import React, { useCallback, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
 import { Upload } from 'lucide-react';
+import { SUPPORTED_AUDIO_EXTENSIONS, SUPPORTED_VIDEO_EXTENSIONS } from '../services/mediaProbe';
+
+const MAX_FILES = 20;
 
 interface AudioUploaderProps {
   onFileSelect: (file: File) => void;
+  // Called instead of onFileSelect when several files are dropped at once
+  onFilesSelect?: (files: File[]) => void;
 }
 
-export function AudioUploader({ onFileSelect }: AudioUploaderProps) {
+export function AudioUploader({ onFileSelect, onFilesSelect }: AudioUploaderProps) {
+  const [rejection, setRejection] = useState<string | null>(null);
+
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
+    setRejection(null);
+    if (acceptedFiles.length > 1 && onFilesSelect) {
+      onFilesSelect(acceptedFiles);
+    } else if (acceptedFiles.length > 0) {
       onFileSelect(acceptedFiles[0]);
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, onFilesSelect]);
+
+  const onDropRejected = useCallback((rejections: FileRejection[]) => {
+    const unsupported = rejections.filter(r => r.errors.some(e => e.code === 'file-invalid-type'));
+    setRejection(unsupported.length > 0
+      ? `Unsupported file type: ${unsupported.map(r => r.file.name).join(', ')}`
+      : rejections[0]?.errors[0]?.message ?? null);
+  }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
+    onDropRejected,
     accept: {
-      'audio/*': ['.mp3', '.wav', '.m4a', '.ogg']
+      'audio/*': SUPPORTED_AUDIO_EXTENSIONS,
+      'video/*': SUPPORTED_VIDEO_EXTENSIONS
     },
-    maxFiles: 1
+    maxFiles: onFilesSelect ? MAX_FILES : 1
   });
 
   return (
@@ -32,11 +51,16 @@ export function AudioUploader({ onFileSelect }: AudioUploaderProps) {
         <Upload className="w-12 h-12 text-gray-400" />
         <div className="text-center">
           <p className="text-lg font-medium text-gray-700">
-            {isDragActive ? 'Drop the audio file here' : 'Drag & drop an audio file here'}
+            {isDragActive ? 'Drop the audio files here' : 'Drag & drop audio files here'}
+          </p>
+          <p className="text-sm text-gray-500 mt-1">
+            {onFilesSelect ? `or click to select up to ${MAX_FILES} files` : 'or click to select a file'}
           </p>
-          <p className="text-sm text-gray-500 mt-1">or click to select a file</p>
         </div>
-        <p className="text-xs text-gray-400">Supported formats: MP3, WAV, M4A, OGG</p>
+        <p className="text-xs text-gray-400">
+          Audio: MP3, WAV, M4A, OGG, FLAC, AAC, OPUS · Video: MP4, MOV, MKV, WEBM
+        </p>
+        {rejection && <p className="text-sm text-red-600">{rejection}</p>}
       </div>
     </div>
   );
@@ -1,19 +1,93 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
-import { Play, Pause, RotateCcw } from 'lucide-react';
+import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.esm.js';
+import TimelinePlugin from 'wavesurfer.js/dist/plugins/timeline.esm.js';
+import { Play, Pause, RotateCcw, Scissors, Trash2, ZoomIn } from 'lucide-react';
+import { EditRegion, EditRegionMode } from '../types/edits';
+import { formatTimestamp } from '../utils/formatTime';
+
+export interface WaveformRegion {
+  start: number;
+  end: number;
+  color: string;
+  label?: string;
+}
 
 interface AudioWaveformProps {
   audioFile: File;
+  regions?: WaveformRegion[];
+  onTimeUpdate?: (time: number) => void;
+  onReady?: (duration: number) => void;
+  // Drag on the waveform to mark sections to drop or keep
+  editRegions?: EditRegion[];
+  onEditRegionsChange?: (regions: EditRegion[]) => void;
 }
 
-export function AudioWaveform({ audioFile }: AudioWaveformProps) {
+const EDIT_COLORS: Record<EditRegionMode, string> = {
+  drop: 'rgba(239, 68, 68, 0.25)',
+  keep: 'rgba(16, 185, 129, 0.25)'
+};
+
+const EDIT_LABELS: Record<EditRegionMode, string> = {
+  drop: 'Drop',
+  keep: 'Keep'
+};
+
+// Pixels per second at the highest zoom level; 0 fits the whole recording
+const MAX_ZOOM = 200;
+
+export interface AudioWaveformHandle {
+  seekTo: (time: number, autoplay?: boolean) => void;
+  // Plays from `start` and pauses again at `end`, e.g. to hear a cited excerpt
+  playRange: (start: number, end: number) => void;
+}
+
+export const AudioWaveform = forwardRef<AudioWaveformHandle, AudioWaveformProps>(function AudioWaveform(
+  { audioFile, regions, onTimeUpdate, onReady, editRegions, onEditRegionsChange },
+  ref
+) {
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsRef = useRef<RegionsPlugin | null>(null);
+  const editRegionsPluginRef = useRef<RegionsPlugin | null>(null);
+  // Set while edit regions are redrawn from props, so that doesn't count as a user edit
+  const renderingEditsRef = useRef(false);
+  const [zoom, setZoom] = useState(0);
+  const [newRegionMode, setNewRegionMode] = useState<EditRegionMode>('drop');
+  const editable = !!onEditRegionsChange;
   const audioUrlRef = useRef<string | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  // End of the excerpt being played by playRange, if any
+  const stopAtRef = useRef<number | null>(null);
+  // Region events fire from wavesurfer, so they read the latest props through refs
+  const editStateRef = useRef({ editRegions: editRegions ?? [], onEditRegionsChange, newRegionMode });
+  editStateRef.current = { editRegions: editRegions ?? [], onEditRegionsChange, newRegionMode };
+
+  useImperativeHandle(ref, () => ({
+    seekTo: (time: number, autoplay = false) => {
+      const ws = wavesurferRef.current;
+      if (!ws) return;
+      stopAtRef.current = null;
+      ws.setTime(time);
+      if (autoplay) {
+        ws.play();
+      }
+    },
+    playRange: (start: number, end: number) => {
+      const ws = wavesurferRef.current;
+      if (!ws) return;
+      stopAtRef.current = end;
+      ws.setTime(start);
+      ws.play();
+    }
+  }), []);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -70,10 +144,51 @@ export function AudioWaveform({ audioFile }: AudioWaveformProps) {
           return;
         }
 
+        regionsRef.current = ws.registerPlugin(RegionsPlugin.create());
+        ws.registerPlugin(TimelinePlugin.create({
+          height: 18,
+          formatTimeCallback: formatTimestamp,
+          style: { fontSize: '10px', color: '#6B7280' }
+        }));
+
+        if (editable) {
+          const edits = ws.registerPlugin(RegionsPlugin.create());
+          editRegionsPluginRef.current = edits;
+          edits.enableDragSelection({ color: EDIT_COLORS.drop });
+
+          edits.on('region-created', (region) => {
+            if (renderingEditsRef.current) return;
+            const { editRegions: current, onEditRegionsChange: emit, newRegionMode: mode } = editStateRef.current;
+            // The drawn region is replaced by the controlled one once the parent updates
+            region.remove();
+            emit?.([...current, { id: crypto.randomUUID(), start: region.start, end: region.end, mode }]);
+          });
+          edits.on('region-updated', (region) => {
+            const { editRegions: current, onEditRegionsChange: emit } = editStateRef.current;
+            emit?.(current.map(r => (r.id === region.id ? { ...r, start: region.start, end: region.end } : r)));
+          });
+        }
+
         ws.on('play', () => setIsPlaying(true));
-        ws.on('pause', () => setIsPlaying(false));
+        ws.on('pause', () => {
+          stopAtRef.current = null;
+          setIsPlaying(false);
+        });
         ws.on('finish', () => setIsPlaying(false));
-        ws.on('ready', () => setIsLoading(false));
+        // Clicking or dragging on the waveform ends a cited excerpt
+        ws.on('interaction', () => {
+          stopAtRef.current = null;
+        });
+        ws.on('ready', (duration) => {
+          setIsLoading(false);
+          onReadyRef.current?.(duration);
+        });
+        ws.on('timeupdate', (time) => {
+          onTimeUpdateRef.current?.(time);
+          if (stopAtRef.current !== null && time >= stopAtRef.current) {
+            ws.pause();
+          }
+        });
         ws.on('error', (err) => {
           console.error('WaveSurfer error:', err);
           setError('Error loading audio. Please try again.');
@@ -117,6 +232,8 @@ export function AudioWaveform({ audioFile }: AudioWaveformProps) {
         wavesurferRef.current.destroy();
         wavesurferRef.current = null;
       }
+      regionsRef.current = null;
+      editRegionsPluginRef.current = null;
       
       // Cleanup audio URL
       if (audioUrlRef.current) {
@@ -126,6 +243,57 @@ export function AudioWaveform({ audioFile }: AudioWaveformProps) {
     };
   }, [audioFile]);
 
+  // Regions can only be drawn once the audio duration is known
+  useEffect(() => {
+    const regionsPlugin = regionsRef.current;
+    if (isLoading || !regionsPlugin) return;
+
+    regionsPlugin.clearRegions();
+    regions?.forEach(region => {
+      regionsPlugin.addRegion({
+        start: region.start,
+        end: region.end,
+        color: region.color,
+        content: region.label,
+        drag: false,
+        resize: false
+      });
+    });
+  }, [regions, isLoading]);
+
+  useEffect(() => {
+    const editsPlugin = editRegionsPluginRef.current;
+    if (isLoading || !editsPlugin) return;
+
+    renderingEditsRef.current = true;
+    editsPlugin.clearRegions();
+    editRegions?.forEach(region => {
+      editsPlugin.addRegion({
+        id: region.id,
+        start: region.start,
+        end: region.end,
+        color: EDIT_COLORS[region.mode],
+        content: EDIT_LABELS[region.mode],
+        drag: true,
+        resize: true
+      });
+    });
+    renderingEditsRef.current = false;
+  }, [editRegions, isLoading]);
+
+  useEffect(() => {
+    if (isLoading || !wavesurferRef.current) return;
+    wavesurferRef.current.zoom(zoom);
+  }, [zoom, isLoading]);
+
+  const updateEditRegion = (id: string, changes: Partial<EditRegion>) => {
+    onEditRegionsChange?.((editRegions ?? []).map(region => (region.id === id ? { ...region, ...changes } : region)));
+  };
+
+  const removeEditRegion = (id: string) => {
+    onEditRegionsChange?.((editRegions ?? []).filter(region => region.id !== id));
+  };
+
   const handlePlayPause = () => {
     if (wavesurferRef.current && !isLoading) {
       wavesurferRef.current.playPause();
@@ -184,7 +352,74 @@ export function AudioWaveform({ audioFile }: AudioWaveformProps) {
         >
           <RotateCcw className="w-6 h-6" />
         </button>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          <ZoomIn className="w-4 h-4" />
+          <input
+            type="range"
+            min={0}
+            max={MAX_ZOOM}
+            value={zoom}
+            disabled={isLoading}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            aria-label="Zoom"
+          />
+        </label>
       </div>
+      {editable && !isLoading && (
+        <div className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <p className="flex items-center gap-2 text-sm text-gray-700">
+              <Scissors className="w-4 h-4 text-indigo-500" />
+              Drag across the waveform to mark a section to
+            </p>
+            <div className="flex rounded-md border overflow-hidden text-sm">
+              {(['drop', 'keep'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setNewRegionMode(mode)}
+                  className={`px-3 py-1 ${newRegionMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {EDIT_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {editRegions && editRegions.length > 0 && (
+            <ul className="divide-y text-sm">
+              {[...editRegions].sort((a, b) => a.start - b.start).map(region => (
+                <li key={region.id} className="flex items-center gap-3 py-2">
+                  <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: EDIT_COLORS[region.mode] }} />
+                  <span className="font-mono text-gray-600">
+                    {formatTimestamp(region.start)} – {formatTimestamp(region.end)}
+                  </span>
+                  <select
+                    value={region.mode}
+                    onChange={(e) => updateEditRegion(region.id, { mode: e.target.value as EditRegionMode })}
+                    className="rounded-md border-gray-300 text-sm py-1"
+                    aria-label="Region action"
+                  >
+                    <option value="drop">Drop this section</option>
+                    <option value="keep">Keep this section</option>
+                  </select>
+                  <button
+                    onClick={() => wavesurferRef.current?.setTime(region.start)}
+                    className="text-indigo-600 hover:text-indigo-800"
+                  >
+                    Go to
+                  </button>
+                  <button
+                    onClick={() => removeEditRegion(region.id)}
+                    className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Remove section"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
       {isLoading && (
         <div className="text-center space-y-2">
           <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
@@ -193,4 +428,4 @@ export function AudioWaveform({ audioFile }: AudioWaveformProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+});
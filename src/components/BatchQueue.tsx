@@ -0,0 +1,130 @@
+import { CheckCircle2, Clock, ExternalLink, Loader2, RotateCcw, XCircle, AlertCircle } from 'lucide-react';
+import { BatchJob, BatchJobStatus, getJobProgress } from '../services/processingQueue';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onOpen: (meetingId: string) => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  processing: 'Processing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STAGE_LABELS = {
+  converting: 'Converting audio',
+  transcribing: 'Transcribing',
+  analyzing: 'Generating minutes'
+};
+
+function StatusIcon({ status }: { status: BatchJobStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-5 h-5 text-gray-400" />;
+    case 'processing':
+      return <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />;
+    case 'done':
+      return <CheckCircle2 className="w-5 h-5 text-green-600" />;
+    case 'failed':
+      return <AlertCircle className="w-5 h-5 text-red-600" />;
+    case 'cancelled':
+      return <XCircle className="w-5 h-5 text-gray-400" />;
+  }
+}
+
+export function BatchQueue({ jobs, onCancel, onRetry, onOpen, onClear }: BatchQueueProps) {
+  const finished = jobs.every(job => job.status !== 'queued' && job.status !== 'processing');
+  const completed = jobs.filter(job => job.status === 'done');
+
+  return (
+    <div className="space-y-6">
+      {finished ? (
+        <div className="bg-gray-50 rounded-lg p-4 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">Batch complete</h3>
+            <p className="text-sm text-gray-600">
+              {completed.length} of {jobs.length} meetings processed. Minutes are saved in your meeting history.
+            </p>
+          </div>
+          <button
+            onClick={onClear}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-white"
+          >
+            Clear batch
+          </button>
+        </div>
+      ) : (
+        <h3 className="text-lg font-medium text-gray-900">
+          Processing {jobs.length} recordings ({completed.length} done)
+        </h3>
+      )}
+
+      <ul className="divide-y border rounded-lg">
+        {jobs.map(job => {
+          const percent = Math.round(getJobProgress(job) * 100);
+          return (
+            <li key={job.id} className="p-4 space-y-2">
+              <div className="flex items-start gap-3">
+                <StatusIcon status={job.status} />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{job.clientData.meetingTitle}</p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {job.clientData.clientName} · {job.file.name}
+                  </p>
+                  <p className={`text-sm ${job.status === 'failed' ? 'text-red-600' : 'text-gray-600'}`}>
+                    {job.status === 'processing'
+                      ? job.message || STAGE_LABELS[job.stage]
+                      : job.error || STATUS_LABELS[job.status]}
+                  </p>
+                </div>
+
+                {job.status === 'done' && job.meetingId && (
+                  <button
+                    onClick={() => onOpen(job.meetingId!)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    Open minutes
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button
+                    onClick={() => onRetry(job.id)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Retry
+                  </button>
+                )}
+                {(job.status === 'queued' || job.status === 'processing') && (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 hover:text-red-800"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    Cancel
+                  </button>
+                )}
+              </div>
+
+              {job.status === 'processing' && (
+                <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600 rounded-full transition-all duration-300"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
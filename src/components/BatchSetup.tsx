@@ -0,0 +1,150 @@
+import { FormEvent, useState } from 'react';
+import { FileAudio, Play } from 'lucide-react';
+import { AUDIO_PROFILES, getAudioProfile, getSelectedAudioProfileId } from '../services/audioProfiles';
+import { LanguageFields } from './LanguageFields';
+import { MinutesTemplateFields } from './MinutesTemplateFields';
+import { getMinutesTemplate, getSelectedMinutesTemplateId } from '../services/minutesTemplates';
+import { BatchEntry } from '../services/processingQueue';
+import { ClientData } from '../types/meeting';
+import { DEFAULT_LANGUAGE_SETTINGS } from '../utils/languages';
+
+interface BatchSetupProps {
+  files: File[];
+  onStart: (entries: BatchEntry[]) => void;
+  onCancel: () => void;
+}
+
+const FIELD_CLASS = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+function getInitialData(file: File): ClientData {
+  const extension = file.name.lastIndexOf('.');
+  return {
+    clientName: '',
+    meetingTitle: extension > 0 ? file.name.slice(0, extension) : file.name,
+    // The recording's modification time is usually the meeting day
+    date: new Date(file.lastModified || Date.now()).toISOString().split('T')[0]
+  };
+}
+
+export function BatchSetup({ files, onStart, onCancel }: BatchSetupProps) {
+  const [entries, setEntries] = useState<ClientData[]>(() => files.map(getInitialData));
+  const [saveAudio, setSaveAudio] = useState(true);
+  const [profileId, setProfileId] = useState(getSelectedAudioProfileId);
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE_SETTINGS);
+  const [templateId, setTemplateId] = useState(getSelectedMinutesTemplateId);
+
+  const updateEntry = (index: number, changes: Partial<ClientData>) => {
+    setEntries(current => current.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const applyClientToAll = () => {
+    const clientName = entries.find(entry => entry.clientName)?.clientName ?? '';
+    setEntries(current => current.map(entry => ({ ...entry, clientName })));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const profile = getAudioProfile(profileId);
+    const template = getMinutesTemplate(templateId);
+    onStart(files.map((file, i) => ({ file, clientData: { ...entries[i], language, template }, saveAudio, profile })));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">
+          Meeting details for {files.length} recordings
+        </h3>
+        <button
+          type="button"
+          onClick={applyClientToAll}
+          className="text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Use the first client name for all
+        </button>
+      </div>
+
+      <ul className="space-y-4">
+        {files.map((file, index) => (
+          <li key={`${file.name}-${index}`} className="border rounded-lg p-4 space-y-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <FileAudio className="w-4 h-4 text-indigo-500" />
+              {file.name}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <input
+                type="text"
+                value={entries[index].clientName}
+                placeholder="Client name"
+                onChange={(e) => updateEntry(index, { clientName: e.target.value })}
+                className={FIELD_CLASS}
+                aria-label="Client name"
+                required
+              />
+              <input
+                type="text"
+                value={entries[index].meetingTitle}
+                placeholder="Meeting title"
+                onChange={(e) => updateEntry(index, { meetingTitle: e.target.value })}
+                className={FIELD_CLASS}
+                aria-label="Meeting title"
+                required
+              />
+              <input
+                type="date"
+                value={entries[index].date}
+                onChange={(e) => updateEntry(index, { date: e.target.value })}
+                className={FIELD_CLASS}
+                aria-label="Meeting date"
+                required
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <LanguageFields value={language} onChange={setLanguage} />
+      <MinutesTemplateFields value={templateId} onChange={setTemplateId} />
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        Audio preprocessing
+        <select
+          value={profileId}
+          onChange={(e) => setProfileId(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          {AUDIO_PROFILES.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={saveAudio}
+          onChange={(e) => setSaveAudio(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Keep the audio in meeting history
+      </label>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          <Play className="w-4 h-4" />
+          Process {files.length} recordings
+        </button>
+      </div>
+    </form>
+  );
+}
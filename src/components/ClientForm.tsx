@@ -1,25 +1,36 @@
 import React from 'react';
+import { LanguageFields } from './LanguageFields';
+import { MinutesTemplateFields } from './MinutesTemplateFields';
+import { getMinutesTemplate, getSelectedMinutesTemplateId } from '../services/minutesTemplates';
+import { ClientData } from '../types/meeting';
+import { DEFAULT_LANGUAGE_SETTINGS } from '../utils/languages';
 
-interface ClientFormProps {
-  onSubmit: (data: ClientData) => void;
+export interface ProcessingOptions {
+  saveAudio: boolean;
 }
 
-interface ClientData {
-  clientName: string;
-  meetingTitle: string;
-  date: string;
+interface ClientFormProps {
+  onSubmit: (data: ClientData, options: ProcessingOptions) => void;
+  // Pre-fills the form, e.g. when changing the settings of a run
+  initialData?: ClientData;
+  detectedLanguage?: string;
+  // Set when there is nothing to process, e.g. every part of the recording was cut
+  disabled?: boolean;
 }
 
-export function ClientForm({ onSubmit }: ClientFormProps) {
-  const [formData, setFormData] = React.useState<ClientData>({
+export function ClientForm({ onSubmit, initialData, detectedLanguage, disabled }: ClientFormProps) {
+  const [formData, setFormData] = React.useState<ClientData>(() => initialData ?? {
     clientName: '',
     meetingTitle: '',
     date: new Date().toISOString().split('T')[0],
   });
+  const [saveAudio, setSaveAudio] = React.useState(true);
+  const [templateId, setTemplateId] = React.useState(() => initialData?.template?.id ?? getSelectedMinutesTemplateId());
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (disabled) return;
+    onSubmit({ ...formData, template: getMinutesTemplate(templateId) }, { saveAudio });
   };
 
   return (
@@ -63,9 +74,25 @@ export function ClientForm({ onSubmit }: ClientFormProps) {
           required
         />
       </div>
+      <LanguageFields
+        value={formData.language ?? DEFAULT_LANGUAGE_SETTINGS}
+        onChange={(language) => setFormData({ ...formData, language })}
+        detectedLanguage={detectedLanguage}
+      />
+      <MinutesTemplateFields value={templateId} onChange={setTemplateId} />
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={saveAudio}
+          onChange={(e) => setSaveAudio(e.target.checked)}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Keep the audio in meeting history
+      </label>
       <button
         type="submit"
-        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        disabled={disabled}
+        className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-300 disabled:cursor-not-allowed"
       >
         Process Audio
       </button>
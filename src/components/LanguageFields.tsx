@@ -0,0 +1,63 @@
+import { Languages } from 'lucide-react';
+import { LanguageCode, LanguageSettings } from '../types/language';
+import { LANGUAGES, getLanguageName } from '../utils/languages';
+
+interface LanguageFieldsProps {
+  value: LanguageSettings;
+  onChange: (value: LanguageSettings) => void;
+  // Language found in an existing transcript (e.g. from live transcription)
+  detectedLanguage?: string;
+}
+
+const FIELD_CLASS = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function LanguageFields({ value, onChange, detectedLanguage }: LanguageFieldsProps) {
+  const parseLanguage = (code: string) => (code ? (code as LanguageCode) : undefined);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          <span className="flex items-center gap-1">
+            <Languages className="w-4 h-4 text-gray-400" />
+            Spoken language
+          </span>
+          <select
+            value={value.spoken ?? ''}
+            onChange={(e) => onChange({ ...value, spoken: parseLanguage(e.target.value) })}
+            className={FIELD_CLASS}
+          >
+            <option value="">
+              {detectedLanguage ? `Auto-detect (detected: ${getLanguageName(detectedLanguage)})` : 'Auto-detect'}
+            </option>
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Minutes language
+          <select
+            value={value.output ?? ''}
+            onChange={(e) => onChange({ ...value, output: parseLanguage(e.target.value) })}
+            className={FIELD_CLASS}
+          >
+            <option value="">Same as spoken</option>
+            {LANGUAGES.map(language => (
+              <option key={language.code} value={language.code}>{language.name}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={value.bilingual}
+          onChange={(e) => onChange({ ...value, bilingual: e.target.checked })}
+          className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Bilingual minutes (English and Spanish side by side)
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Search, Trash2, FileAudio, FolderOpen, Building2 } from 'lucide-react';
+import { deleteMeeting, listMeetings, searchMeetings } from '../services/meetingStore';
+import { SavedMeeting } from '../types/meeting';
+
+interface MeetingHistoryProps {
+  onOpen: (meeting: SavedMeeting) => void;
+}
+
+export function MeetingHistory({ onOpen }: MeetingHistoryProps) {
+  const [meetings, setMeetings] = useState<SavedMeeting[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listMeetings()
+      .then(setMeetings)
+      .catch(err => {
+        console.error('Failed to load meeting history:', err);
+        setError('Failed to load meeting history.');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const groups = useMemo(() => {
+    const byClient = new Map<string, ReturnType<typeof searchMeetings>>();
+    for (const result of searchMeetings(meetings, query)) {
+      const client = result.meeting.clientData.clientName || 'No client';
+      byClient.set(client, [...(byClient.get(client) ?? []), result]);
+    }
+    return [...byClient.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [meetings, query]);
+
+  const handleDelete = async (meeting: SavedMeeting) => {
+    if (!window.confirm(`Delete "${meeting.clientData.meetingTitle}" from your history?`)) return;
+
+    try {
+      await deleteMeeting(meeting.id);
+      setMeetings(current => current.filter(m => m.id !== meeting.id));
+    } catch (err) {
+      console.error('Failed to delete meeting:', err);
+      setError('Failed to delete the meeting.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12 space-y-2">
+        <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        <p className="text-gray-600">Loading meeting history...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <Search className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search transcripts and minutes..."
+          className="block w-full pl-10 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {meetings.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">
+          No saved meetings yet. Processed meetings are stored here automatically.
+        </p>
+      ) : groups.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No meetings match your search.</p>
+      ) : (
+        groups.map(([client, results]) => (
+          <div key={client}>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+              <Building2 className="w-4 h-4" />
+              {client}
+            </h3>
+            <ul className="divide-y border rounded-lg">
+              {results.map(({ meeting, snippet }) => (
+                <li key={meeting.id} className="flex items-start gap-3 p-4 hover:bg-gray-50">
+                  <button onClick={() => onOpen(meeting)} className="flex-1 text-left">
+                    <p className="font-medium text-gray-900 flex items-center gap-2">
+                      {meeting.clientData.meetingTitle}
+                      {meeting.audio && (
+                        <span title="Audio saved">
+                          <FileAudio className="w-4 h-4 text-indigo-400" />
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(meeting.clientData.date).toLocaleDateString()} · {meeting.minutes.topics.length} topics
+                    </p>
+                    {snippet && query && <p className="text-sm text-gray-600 mt-1 italic">{snippet}</p>}
+                  </button>
+                  <button
+                    onClick={() => onOpen(meeting)}
+                    className="p-2 text-gray-400 hover:text-indigo-600"
+                    aria-label="Open meeting"
+                  >
+                    <FolderOpen className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(meeting)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label="Delete meeting"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,79 +1,414 @@
-import React from 'react';
-import { FileText, CheckSquare } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { FileText, CheckSquare, Pencil, Check, Undo2, Redo2, ListChecks, LayoutList, Download, Settings2, RefreshCw, ClipboardList, Gavel, Sparkles } from 'lucide-react';
+import { ActionItemEntry, ActionItemList } from './ActionItemList';
+import { SourceLinks } from './SourceLinks';
+import { MinutesEditor } from './MinutesEditor';
+import { PdfTemplateSettings } from './PdfTemplateSettings';
+import { EXPORT_FORMATS, ExportFormat, downloadMinutes } from '../services/exporters';
+import { Citation, Minutes, MinutesSection, MinutesTopic, StatementSource, TopicSentiment } from '../types/minutes';
+import { getDecisionSourceKey, getTopicSourceKey } from '../utils/citations';
+import { getLanguageName } from '../utils/languages';
+import { updateItem } from '../utils/minutesEditing';
+
+const ALL_OWNERS = '__all__';
+const UNASSIGNED = '__unassigned__';
+
+const SENTIMENT_STYLES: Record<TopicSentiment, { label: string; className: string }> = {
+  positive: { label: 'Positive', className: 'bg-green-100 text-green-800' },
+  neutral: { label: 'Neutral', className: 'bg-gray-100 text-gray-700' },
+  negative: { label: 'Negative', className: 'bg-red-100 text-red-800' },
+  mixed: { label: 'Mixed', className: 'bg-amber-100 text-amber-800' }
+};
 
 interface MinutesDisplayProps {
-  minutes: {
-    topics: Array<{
-      title: string;
-      keyPoints: string[];
-      actionItems: string[];
-    }>;
-  };
+  minutes: Minutes;
   clientName: string;
   meetingTitle: string;
   date: string;
+  onMinutesChange?: (minutes: Minutes, mergeKey?: string) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUpdateTranslation?: () => void;
+  translating?: boolean;
+  // Plays a cited excerpt of the recording, when the audio is available
+  onPlayCitation?: (citation: Citation) => void;
 }
 
-export function MinutesDisplay({ minutes, clientName, meetingTitle, date }: MinutesDisplayProps) {
+function getActionEntries(minutes: Minutes): ActionItemEntry[] {
+  return minutes.topics.flatMap((topic, topicIndex) =>
+    topic.actionItems.map((item, index) => ({
+      item,
+      position: { topic: topicIndex, index },
+      topicTitle: topic.title
+    }))
+  );
+}
+
+export function MinutesDisplay({
+  minutes,
+  clientName,
+  meetingTitle,
+  date,
+  onMinutesChange,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  onUpdateTranslation,
+  translating = false,
+  onPlayCitation
+}: MinutesDisplayProps) {
+  const translation = minutes.translation;
+  const [editing, setEditing] = useState(false);
+  const [view, setView] = useState<'topics' | 'actions'>('topics');
+  const [ownerFilter, setOwnerFilter] = useState(ALL_OWNERS);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showPdfSettings, setShowPdfSettings] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(format);
+      setExportError(null);
+      await downloadMinutes(format, minutes, { clientName, meetingTitle, date });
+    } catch (err) {
+      console.error('Export failed:', err);
+      setExportError('Failed to export the minutes. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const actionEntries = useMemo(() => getActionEntries(minutes), [minutes]);
+  const translatedEntries = useMemo(() => (translation ? getActionEntries(translation) : []), [translation]);
+
+  const owners = useMemo(
+    () => [...new Set(actionEntries.flatMap(entry => (entry.item.owner ? [entry.item.owner] : [])))].sort(),
+    [actionEntries]
+  );
+
+  const matchesOwner = (entry: ActionItemEntry) =>
+    ownerFilter === ALL_OWNERS ||
+    (ownerFilter === UNASSIGNED ? !entry.item.owner : entry.item.owner === ownerFilter);
+
+  const handleToggle = onMinutesChange
+    ? ({ item, position }: ActionItemEntry) =>
+        onMinutesChange(updateItem(minutes, 'actionItems', position, {
+          ...item,
+          status: item.status === 'done' ? 'open' : 'done'
+        }))
+    : undefined;
+
+  const renderStatement = (text: string, source?: StatementSource) => (
+    <>
+      {text}
+      <SourceLinks source={source} onPlay={onPlayCitation} />
+    </>
+  );
+
+  // `sources` are those of the minutes the topic belongs to, original or translation
+  const renderTopic = (
+    topic: MinutesTopic,
+    topicIndex: number,
+    entries: ActionItemEntry[],
+    sources?: Record<string, StatementSource>,
+    onToggle?: (entry: ActionItemEntry) => void
+  ) => (
+    <div className="border-l-4 border-indigo-500 pl-4">
+      <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+        <FileText className="w-5 h-5 text-indigo-500" />
+        {topic.title}
+        {topic.sentiment && (
+          <span
+            className={`ml-auto px-2 py-0.5 rounded-full text-xs font-medium ${SENTIMENT_STYLES[topic.sentiment].className}`}
+            title="Tone of the discussion"
+          >
+            {SENTIMENT_STYLES[topic.sentiment].label}
+          </span>
+        )}
+      </h3>
+
+      <div className="space-y-4">
+        {topic.keyPoints.length > 0 && (
+          <div>
+            <h4 className="text-lg font-medium text-gray-700 mb-2">Key Points</h4>
+            <ul className="list-disc list-inside space-y-2 text-gray-600">
+              {topic.keyPoints.map((point, idx) => (
+                <li key={idx}>{renderStatement(point, sources?.[getTopicSourceKey(topicIndex, 'keyPoints', idx)])}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div>
+            <h4 className="text-lg font-medium text-gray-700 mb-2 flex items-center gap-2">
+              <CheckSquare className="w-5 h-5 text-green-500" />
+              Action Items
+            </h4>
+            <ActionItemList
+              entries={entries.map(entry => ({ ...entry, topicTitle: undefined }))}
+              onToggle={onToggle}
+              sources={sources}
+              onPlayCitation={onPlayCitation}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderSummary = (summary: string) => (
+    <div className="rounded-lg bg-indigo-50 p-4">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-indigo-700 mb-2 flex items-center gap-2">
+        <Sparkles className="w-4 h-4" />
+        Summary
+      </h3>
+      <p className="text-gray-700">{summary}</p>
+    </div>
+  );
+
+  const renderDecisions = (decisions: string[], sources?: Record<string, StatementSource>) => (
+    <div className="border-l-4 border-emerald-500 pl-4">
+      <h3 className="text-xl font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <Gavel className="w-5 h-5 text-emerald-600" />
+        Decisions
+      </h3>
+      <ul className="list-disc list-inside space-y-2 text-gray-600">
+        {decisions.map((decision, idx) => (
+          <li key={idx}>{renderStatement(decision, sources?.[getDecisionSourceKey(idx)])}</li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const columns = translation ? 'grid grid-cols-1 md:grid-cols-2 gap-6' : '';
+
+  const renderSection = (section: MinutesSection) => (
+    <div className="border-l-4 border-amber-400 pl-4">
+      <h3 className="text-xl font-semibold text-gray-800 mb-3 flex items-center gap-2">
+        <ClipboardList className="w-5 h-5 text-amber-500" />
+        {section.title}
+      </h3>
+      {section.items.length > 0 ? (
+        <ul className="list-disc list-inside space-y-2 text-gray-600">
+          {section.items.map((item, idx) => (
+            <li key={idx}>{item}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-gray-400 italic">Nothing recorded.</p>
+      )}
+    </div>
+  );
+
   return (
     <div className="bg-white rounded-lg shadow-lg p-8 max-w-4xl mx-auto">
-      <div className="border-b pb-4 mb-6">
-        <h2 className="text-2xl font-bold text-gray-900">{meetingTitle}</h2>
-        <div className="text-gray-600 mt-2">
-          <p>Client: {clientName}</p>
-          <p>Date: {new Date(date).toLocaleDateString()}</p>
+      <div className="border-b pb-4 mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{meetingTitle}</h2>
+          <div className="text-gray-600 mt-2">
+            <p>Client: {clientName}</p>
+            <p>Date: {new Date(date).toLocaleDateString()}</p>
+          </div>
         </div>
+
+        {onMinutesChange && (
+          <div className="flex items-center gap-2 print:hidden">
+            {editing && (
+              <>
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                  aria-label="Undo"
+                  title="Undo"
+                >
+                  <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+                  aria-label="Redo"
+                  title="Redo"
+                >
+                  <Redo2 className="w-5 h-5" />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setEditing(!editing)}
+              className="inline-flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              {editing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+              {editing ? 'Done' : 'Edit'}
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="space-y-8">
-        {minutes.topics.map((topic, index) => (
-          <div key={index} className="border-l-4 border-indigo-500 pl-4">
-            <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
-              <FileText className="w-5 h-5 text-indigo-500" />
-              {topic.title}
-            </h3>
-
-            <div className="space-y-4">
-              <div>
-                <h4 className="text-lg font-medium text-gray-700 mb-2">Key Points</h4>
-                <ul className="list-disc list-inside space-y-2 text-gray-600">
-                  {topic.keyPoints.map((point, idx) => (
-                    <li key={idx}>{point}</li>
-                  ))}
-                </ul>
+      {editing && onMinutesChange ? (
+        <>
+          {translation && (
+            <p className="text-sm text-gray-500 mb-4">
+              Edits apply to the {minutes.language ? getLanguageName(minutes.language) : 'original'} minutes.
+              Update the {getLanguageName(translation.language)} translation when you are done.
+            </p>
+          )}
+          <MinutesEditor minutes={minutes} onChange={onMinutesChange} />
+        </>
+      ) : (
+        <>
+          {actionEntries.length > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6 print:hidden">
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                <button
+                  onClick={() => setView('topics')}
+                  className={`inline-flex items-center gap-1 px-3 py-1.5 ${
+                    view === 'topics' ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <LayoutList className="w-4 h-4" />
+                  By topic
+                </button>
+                <button
+                  onClick={() => setView('actions')}
+                  className={`inline-flex items-center gap-1 px-3 py-1.5 ${
+                    view === 'actions' ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <ListChecks className="w-4 h-4" />
+                  All action items
+                </button>
               </div>
+              <select
+                value={ownerFilter}
+                onChange={(e) => setOwnerFilter(e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+                aria-label="Filter action items by owner"
+              >
+                <option value={ALL_OWNERS}>All owners</option>
+                {owners.map(owner => (
+                  <option key={owner} value={owner}>{owner}</option>
+                ))}
+                <option value={UNASSIGNED}>Unassigned</option>
+              </select>
+            </div>
+          )}
 
-              {topic.actionItems.length > 0 && (
-                <div>
-                  <h4 className="text-lg font-medium text-gray-700 mb-2 flex items-center gap-2">
-                    <CheckSquare className="w-5 h-5 text-green-500" />
-                    Action Items
-                  </h4>
-                  <ul className="list-none space-y-2">
-                    {topic.actionItems.map((item, idx) => (
-                      <li key={idx} className="flex items-start gap-2 text-gray-600">
-                        <span className="inline-block w-5 h-5 mt-0.5 bg-green-100 text-green-800 rounded-full text-xs flex items-center justify-center">
-                          {idx + 1}
-                        </span>
-                        {item}
-                      </li>
-                    ))}
-                  </ul>
+          {view === 'actions' ? (
+            <div>
+              <h3 className="text-xl font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                <CheckSquare className="w-5 h-5 text-green-500" />
+                All Action Items
+              </h3>
+              <ActionItemList
+                entries={actionEntries.filter(matchesOwner)}
+                onToggle={handleToggle}
+                sources={minutes.sources}
+                onPlayCitation={onPlayCitation}
+              />
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {translation && (
+                <div className="hidden md:grid grid-cols-2 gap-6 text-sm font-semibold uppercase tracking-wide text-gray-500">
+                  <span>{minutes.language ? getLanguageName(minutes.language) : 'Original'}</span>
+                  <span className="flex items-center justify-between gap-2">
+                    {getLanguageName(translation.language)}
+                    {onUpdateTranslation && (
+                      <button
+                        onClick={onUpdateTranslation}
+                        disabled={translating}
+                        className="inline-flex items-center gap-1 normal-case font-normal tracking-normal text-indigo-600 hover:text-indigo-800 disabled:opacity-50 print:hidden"
+                      >
+                        <RefreshCw className={`w-4 h-4 ${translating ? 'animate-spin' : ''}`} />
+                        {translating ? 'Translating...' : 'Update translation'}
+                      </button>
+                    )}
+                  </span>
+                </div>
+              )}
+              {minutes.summary && (
+                <div className={columns}>
+                  {renderSummary(minutes.summary)}
+                  {translation?.summary && renderSummary(translation.summary)}
+                </div>
+              )}
+              {minutes.decisions && minutes.decisions.length > 0 && (
+                <div className={columns}>
+                  {renderDecisions(minutes.decisions, minutes.sources)}
+                  {translation?.decisions && renderDecisions(translation.decisions, translation.sources)}
                 </div>
               )}
+              {minutes.sections?.map((section, index) => {
+                const translatedSection = translation?.sections?.[index];
+                return (
+                  <div key={section.id} className={columns}>
+                    {renderSection(section)}
+                    {translatedSection && renderSection(translatedSection)}
+                  </div>
+                );
+              })}
+              {minutes.topics.map((topic, index) => {
+                const topicActions = actionEntries.filter(entry => entry.position.topic === index && matchesOwner(entry));
+                const translatedTopic = translation?.topics[index];
+                return (
+                  <div key={index} className={columns}>
+                    {renderTopic(topic, index, topicActions, minutes.sources, handleToggle)}
+                    {translatedTopic && renderTopic(
+                      translatedTopic,
+                      index,
+                      translatedEntries.filter(entry => entry.position.topic === index && matchesOwner(entry)),
+                      translation.sources
+                    )}
+                  </div>
+                );
+              })}
             </div>
-          </div>
-        ))}
-      </div>
+          )}
+        </>
+      )}
 
-      <div className="mt-8 flex justify-end">
-        <button
-          onClick={() => window.print()}
-          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors"
-        >
-          Export to PDF
-        </button>
-      </div>
+      {!editing && (
+        <div className="mt-8 print:hidden space-y-3">
+          {showPdfSettings && <PdfTemplateSettings />}
+          {exportError && <p className="text-sm text-red-600 text-right">{exportError}</p>}
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <span className="inline-flex items-center gap-1 text-sm text-gray-500 mr-1">
+              <Download className="w-4 h-4" />
+              Download:
+            </span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className={`px-3 py-2 text-sm rounded-md disabled:opacity-50 transition-colors ${
+                  format === 'pdf'
+                    ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {exporting === format ? 'Exporting...' : label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowPdfSettings(!showPdfSettings)}
+              className={`p-2 rounded-md border ${
+                showPdfSettings ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+              }`}
+              aria-label="PDF options"
+              title="PDF options"
+            >
+              <Settings2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { DragEvent, useState } from 'react';
+import { GripVertical, Plus, Trash2 } from 'lucide-react';
+import { ActionItem, ActionItemPriority, ActionItemStatus, Minutes, TopicSentiment } from '../types/minutes';
+import {
+  ItemPosition,
+  TopicListField,
+  addItem,
+  addTopic,
+  moveItem,
+  moveTopic,
+  removeDecision,
+  removeItem,
+  removeTopic,
+  updateItem,
+  updateSectionItems,
+  updateTopic
+} from '../utils/minutesEditing';
+
+interface MinutesEditorProps {
+  minutes: Minutes;
+  onChange: (minutes: Minutes, mergeKey?: string) => void;
+}
+
+type DragSource =
+  | { kind: 'topic'; index: number }
+  | { kind: TopicListField; position: ItemPosition };
+
+const LIST_LABELS: Record<TopicListField, string> = {
+  keyPoints: 'Key Points',
+  actionItems: 'Action Items'
+};
+
+const PRIORITY_OPTIONS: ActionItemPriority[] = ['high', 'medium', 'low'];
+
+const STATUS_OPTIONS: Array<{ value: ActionItemStatus; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In progress' },
+  { value: 'done', label: 'Done' }
+];
+
+const SENTIMENT_OPTIONS: Array<{ value: TopicSentiment; label: string }> = [
+  { value: 'positive', label: 'Positive' },
+  { value: 'neutral', label: 'Neutral' },
+  { value: 'negative', label: 'Negative' },
+  { value: 'mixed', label: 'Mixed' }
+];
+
+const FIELD_CLASS = 'block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function MinutesEditor({ minutes, onChange }: MinutesEditorProps) {
+  const [dragSource, setDragSource] = useState<DragSource | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Only the element whose grip is held is draggable, so text in inputs stays selectable
+  const [armedId, setArmedId] = useState<string | null>(null);
+
+  const endDrag = () => {
+    setDragSource(null);
+    setDropTarget(null);
+    setArmedId(null);
+  };
+
+  const gripProps = (id: string) => ({
+    onMouseDown: () => setArmedId(id),
+    onMouseUp: () => setArmedId(null)
+  });
+
+  const dropTopic = (index: number) => {
+    if (dragSource?.kind === 'topic' && dragSource.index !== index) {
+      onChange(moveTopic(minutes, dragSource.index, index));
+    }
+    endDrag();
+  };
+
+  const dropItem = (field: TopicListField, position: ItemPosition) => {
+    if (dragSource?.kind === field) {
+      onChange(moveItem(minutes, field, dragSource.position, position));
+    }
+    endDrag();
+  };
+
+  const dropHandlers = (targetId: string, accepts: boolean, onDrop: () => void) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!accepts) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(targetId);
+    },
+    onDrop: (e: DragEvent) => {
+      if (!accepts) return;
+      e.preventDefault();
+      e.stopPropagation();
+      onDrop();
+    }
+  });
+
+  const renderActionItemFields = (
+    item: ActionItem,
+    itemId: string,
+    update: (changes: Partial<ActionItem>, mergeKey?: string) => void
+  ) => (
+    <div className="w-full space-y-2">
+      <textarea
+        value={item.description}
+        rows={1}
+        onChange={(e) => update({ description: e.target.value }, `${itemId}-description`)}
+        className={`${FIELD_CLASS} resize-y`}
+        aria-label="Action item description"
+      />
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <input
+          type="text"
+          value={item.owner ?? ''}
+          placeholder="Owner"
+          onChange={(e) => update({ owner: e.target.value || undefined }, `${itemId}-owner`)}
+          className={FIELD_CLASS}
+          aria-label="Owner"
+        />
+        <input
+          type="text"
+          value={item.dueDate ?? ''}
+          placeholder="Due (YYYY-MM-DD)"
+          onChange={(e) => update({ dueDate: e.target.value || undefined }, `${itemId}-due`)}
+          className={FIELD_CLASS}
+          aria-label="Due date"
+        />
+        <select
+          value={item.priority}
+          onChange={(e) => update({ priority: e.target.value as ActionItemPriority })}
+          className={FIELD_CLASS}
+          aria-label="Priority"
+        >
+          {PRIORITY_OPTIONS.map(priority => (
+            <option key={priority} value={priority}>
+              {priority.charAt(0).toUpperCase() + priority.slice(1)} priority
+            </option>
+          ))}
+        </select>
+        <select
+          value={item.status}
+          onChange={(e) => update({ status: e.target.value as ActionItemStatus })}
+          className={FIELD_CLASS}
+          aria-label="Status"
+        >
+          {STATUS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+
+  const renderList = (topicIndex: number, field: TopicListField) => {
+    const items = minutes.topics[topicIndex][field];
+    const endId = `${field}-${topicIndex}-end`;
+
+    return (
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">{LIST_LABELS[field]}</h4>
+        <ul className="space-y-2">
+          {items.map((item, index) => {
+            const position = { topic: topicIndex, index };
+            const itemId = `${field}-${topicIndex}-${index}`;
+            return (
+              <li
+                key={index}
+                draggable={armedId === itemId}
+                onDragStart={(e) => {
+                  e.stopPropagation();
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragSource({ kind: field, position });
+                }}
+                onDragEnd={endDrag}
+                {...dropHandlers(itemId, dragSource?.kind === field, () => dropItem(field, position))}
+                className={`flex items-start gap-2 rounded-md ${
+                  dropTarget === itemId ? 'border-t-2 border-indigo-500' : ''
+                }`}
+              >
+                <span {...gripProps(itemId)} className="mt-2.5 cursor-grab shrink-0">
+                  <GripVertical className="w-4 h-4 text-gray-400" />
+                </span>
+                {typeof item === 'string' ? (
+                  <textarea
+                    value={item}
+                    rows={1}
+                    onChange={(e) => onChange(updateItem(minutes, 'keyPoints', position, e.target.value), itemId)}
+                    className={`${FIELD_CLASS} resize-y`}
+                  />
+                ) : (
+                  renderActionItemFields(item, itemId, (changes, mergeKey) =>
+                    onChange(updateItem(minutes, 'actionItems', position, { ...item, ...changes }), mergeKey)
+                  )
+                )}
+                <button
+                  onClick={() => onChange(removeItem(minutes, field, position))}
+                  className="p-2 text-gray-400 hover:text-red-600"
+                  aria-label={`Delete ${LIST_LABELS[field].toLowerCase()} entry`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div
+          {...dropHandlers(endId, dragSource?.kind === field, () =>
+            dropItem(field, { topic: topicIndex, index: items.length })
+          )}
+          className={`mt-2 rounded-md ${dropTarget === endId ? 'border-t-2 border-indigo-500' : ''}`}
+        >
+          <button
+            onClick={() => onChange(addItem(minutes, field, topicIndex))}
+            className="inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+          >
+            <Plus className="w-4 h-4" />
+            Add {field === 'keyPoints' ? 'key point' : 'action item'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Plain lists of statements: decisions and the template's sections
+  const renderTextList = (
+    listId: string,
+    title: string,
+    items: string[],
+    setItems: (items: string[], mergeKey?: string) => void,
+    // Decisions carry sources that have to follow the entries after the removed one
+    removeEntry: (index: number) => void = (index) => setItems(items.filter((_, i) => i !== index))
+  ) => (
+    <div key={listId} className="border rounded-lg p-4 bg-gray-50">
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-start gap-2">
+            <textarea
+              value={item}
+              rows={1}
+              onChange={(e) => setItems(items.map((entry, i) => (i === index ? e.target.value : entry)), `${listId}-${index}`)}
+              className={`${FIELD_CLASS} resize-y`}
+              aria-label={`${title} entry`}
+            />
+            <button
+              onClick={() => removeEntry(index)}
+              className="p-2 text-gray-400 hover:text-red-600"
+              aria-label={`Delete ${title.toLowerCase()} entry`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={() => setItems([...items, ''])}
+        className="mt-2 inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+      >
+        <Plus className="w-4 h-4" />
+        Add entry
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <label className="block border rounded-lg p-4 bg-gray-50">
+        <span className="block text-sm font-semibold text-gray-700 mb-2">Summary</span>
+        <textarea
+          value={minutes.summary ?? ''}
+          rows={3}
+          onChange={(e) => onChange({ ...minutes, summary: e.target.value || undefined }, 'summary')}
+          className={`${FIELD_CLASS} resize-y`}
+        />
+      </label>
+
+      {renderTextList(
+        'decisions',
+        'Decisions',
+        minutes.decisions ?? [],
+        (decisions, mergeKey) => onChange({ ...minutes, decisions }, mergeKey),
+        (index) => onChange(removeDecision(minutes, index))
+      )}
+
+      {minutes.sections?.map((section, sectionIndex) =>
+        renderTextList(`section-${section.id}`, section.title, section.items, (items, mergeKey) =>
+          onChange(updateSectionItems(minutes, sectionIndex, items), mergeKey)
+        )
+      )}
+
+      {minutes.topics.map((topic, topicIndex) => {
+        const topicId = `topic-${topicIndex}`;
+        return (
+          <div
+            key={topicIndex}
+            draggable={armedId === topicId}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragSource({ kind: 'topic', index: topicIndex });
+            }}
+            onDragEnd={endDrag}
+            {...dropHandlers(topicId, dragSource?.kind === 'topic', () => dropTopic(topicIndex))}
+            className={`border rounded-lg p-4 bg-gray-50 ${
+              dropTarget === topicId ? 'ring-2 ring-indigo-500' : ''
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-4">
+              <span {...gripProps(topicId)} className="cursor-grab shrink-0">
+                <GripVertical className="w-5 h-5 text-gray-400" />
+              </span>
+              <input
+                type="text"
+                value={topic.title}
+                onChange={(e) => onChange(updateTopic(minutes, topicIndex, { title: e.target.value }), `${topicId}-title`)}
+                className={`${FIELD_CLASS} font-semibold`}
+                aria-label="Topic title"
+              />
+              <select
+                value={topic.sentiment ?? ''}
+                onChange={(e) =>
+                  onChange(updateTopic(minutes, topicIndex, { sentiment: (e.target.value || undefined) as TopicSentiment | undefined }))
+                }
+                className={`${FIELD_CLASS} w-36 shrink-0`}
+                aria-label="Sentiment"
+              >
+                <option value="">No sentiment</option>
+                {SENTIMENT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => onChange(removeTopic(minutes, topicIndex))}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label="Delete topic"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4 pl-7">
+              {renderList(topicIndex, 'keyPoints')}
+              {renderList(topicIndex, 'actionItems')}
+            </div>
+          </div>
+        );
+      })}
+
+      <div
+        {...dropHandlers('topic-end', dragSource?.kind === 'topic', () => dropTopic(minutes.topics.length))}
+        className={`rounded-md ${dropTarget === 'topic-end' ? 'border-t-2 border-indigo-500' : ''}`}
+      >
+        <button
+          onClick={() => onChange(addTopic(minutes))}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-dashed border-gray-300 rounded-md text-gray-600 hover:border-indigo-400 hover:text-indigo-600"
+        >
+          <Plus className="w-4 h-4" />
+          Add topic
+        </button>
+      </div>
+    </div>
+  );
+}
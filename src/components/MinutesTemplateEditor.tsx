@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react';
+import {
+  MINUTES_TEMPLATES,
+  createSectionId,
+  deleteMinutesTemplate,
+  isBuiltInMinutesTemplate,
+  saveMinutesTemplate
+} from '../services/minutesTemplates';
+import { MinutesTemplate, MinutesTemplateSection } from '../types/minutes';
+
+interface MinutesTemplateEditorProps {
+  template: MinutesTemplate;
+  onSaved: (template: MinutesTemplate) => void;
+  // Called after a custom template is deleted or a built-in one is restored
+  onDeleted: (id: string) => void;
+}
+
+const FIELD_CLASS = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function MinutesTemplateEditor({ template, onSaved, onDeleted }: MinutesTemplateEditorProps) {
+  const [draft, setDraft] = useState(template);
+  const [error, setError] = useState<string | null>(null);
+  const builtIn = isBuiltInMinutesTemplate(template.id);
+  const defaults = MINUTES_TEMPLATES.find(entry => entry.id === template.id);
+
+  const updateSection = (index: number, changes: Partial<MinutesTemplateSection>) => {
+    setDraft({
+      ...draft,
+      sections: draft.sections.map((section, i) => (i === index ? { ...section, ...changes } : section))
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft.name.trim()) {
+      setError('The template needs a name.');
+      return;
+    }
+    if (draft.sections.some(section => !section.title.trim())) {
+      setError('Every section needs a title.');
+      return;
+    }
+
+    // New sections get their id from their title the first time they are saved,
+    // avoiding the ids of every other section, including ones listed after them
+    const takenIds = new Set(draft.sections.map(section => section.id).filter(Boolean));
+    const sections = draft.sections.map(section => {
+      if (section.id) return section;
+      const id = createSectionId(section.title, takenIds);
+      takenIds.add(id);
+      return { ...section, id };
+    });
+    const saved = { ...draft, name: draft.name.trim(), sections };
+    saveMinutesTemplate(saved);
+    setDraft(saved);
+    setError(null);
+    onSaved(saved);
+  };
+
+  const handleDelete = () => {
+    if (builtIn) {
+      if (!window.confirm(`Restore "${template.name}" to its default sections and instructions?`)) return;
+      deleteMinutesTemplate(template.id);
+      if (defaults) setDraft(defaults);
+    } else {
+      if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+      deleteMinutesTemplate(template.id);
+    }
+    onDeleted(template.id);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Description
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            className={FIELD_CLASS}
+          />
+        </label>
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700">
+        Instructions for the minutes
+        <textarea
+          value={draft.instructions}
+          rows={2}
+          placeholder="e.g. This is a weekly sync of the design team. Keep the key points short."
+          onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+          className={`${FIELD_CLASS} resize-y`}
+        />
+      </label>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700">Sections</h4>
+        <p className="text-xs text-gray-500 mb-2">
+          Listed above the topics, each with the entries the instructions ask for.
+        </p>
+        <ul className="space-y-2">
+          {draft.sections.map((section, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <input
+                type="text"
+                value={section.title}
+                placeholder="Title, e.g. Risks"
+                onChange={(e) => updateSection(index, { title: e.target.value })}
+                className={`${FIELD_CLASS} mt-0 sm:w-48 shrink-0`}
+                aria-label="Section title"
+              />
+              <input
+                type="text"
+                value={section.instructions}
+                placeholder="What belongs in this section"
+                onChange={(e) => updateSection(index, { instructions: e.target.value })}
+                className={`${FIELD_CLASS} mt-0`}
+                aria-label="Section instructions"
+              />
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, sections: draft.sections.filter((_, i) => i !== index) })}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label="Delete section"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={() => setDraft({ ...draft, sections: [...draft.sections, { id: '', title: '', instructions: '' }] })}
+          className="mt-2 inline-flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <Plus className="w-4 h-4" />
+          Add section
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {(!builtIn || JSON.stringify(template) !== JSON.stringify(defaults)) && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-white"
+          >
+            {builtIn ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+            {builtIn ? 'Restore defaults' : 'Delete template'}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={handleSave}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+        >
+          <Save className="w-4 h-4" />
+          Save template
+        </button>
+      </div>
+    </div>
+  );
+}
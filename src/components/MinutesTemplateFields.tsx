@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { CopyPlus, LayoutTemplate, Pencil } from 'lucide-react';
+import { MinutesTemplateEditor } from './MinutesTemplateEditor';
+import {
+  createMinutesTemplate,
+  getMinutesTemplate,
+  getMinutesTemplates,
+  saveMinutesTemplate,
+  setSelectedMinutesTemplateId
+} from '../services/minutesTemplates';
+
+interface MinutesTemplateFieldsProps {
+  value: string;
+  onChange: (id: string) => void;
+}
+
+const FIELD_CLASS = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function MinutesTemplateFields({ value, onChange }: MinutesTemplateFieldsProps) {
+  const [templates, setTemplates] = useState(getMinutesTemplates);
+  const [editing, setEditing] = useState(false);
+  const template = templates.find(entry => entry.id === value) ?? templates[0];
+
+  const select = (id: string) => {
+    setSelectedMinutesTemplateId(id);
+    onChange(id);
+  };
+
+  const refresh = (id: string) => {
+    setTemplates(getMinutesTemplates());
+    select(getMinutesTemplate(id).id);
+  };
+
+  const handleDuplicate = () => {
+    const copy = createMinutesTemplate(template);
+    saveMinutesTemplate(copy);
+    refresh(copy.id);
+    setEditing(true);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="minutesTemplate" className="flex items-center gap-1 text-sm font-medium text-gray-700">
+          <LayoutTemplate className="w-4 h-4 text-gray-400" />
+          Minutes template
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            id="minutesTemplate"
+            value={template.id}
+            onChange={(e) => select(e.target.value)}
+            className={FIELD_CLASS}
+          >
+            {templates.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setEditing(!editing)}
+            className={`mt-1 p-2 rounded-md border ${editing ? 'border-indigo-400 text-indigo-600' : 'border-gray-300 text-gray-500 hover:text-indigo-600'}`}
+            aria-label="Edit template"
+            title="Edit template"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={handleDuplicate}
+            className="mt-1 p-2 rounded-md border border-gray-300 text-gray-500 hover:text-indigo-600"
+            aria-label="New template from this one"
+            title="New template from this one"
+          >
+            <CopyPlus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {template.description && <p className="text-xs text-gray-500">{template.description}</p>}
+      {editing && (
+        <MinutesTemplateEditor
+          key={template.id}
+          template={template}
+          onSaved={(saved) => refresh(saved.id)}
+          onDeleted={refresh}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { ImagePlus, X } from 'lucide-react';
+import {
+  PDF_TEMPLATES,
+  getPdfTemplate,
+  getSelectedPdfTemplateId,
+  savePdfTemplateOverrides,
+  setSelectedPdfTemplateId
+} from '../services/exporters';
+
+const MAX_LOGO_BYTES = 512 * 1024;
+
+export function PdfTemplateSettings() {
+  const [templateId, setTemplateId] = useState(getSelectedPdfTemplateId);
+  const [template, setTemplate] = useState(() => getPdfTemplate(templateId));
+  const [error, setError] = useState<string | null>(null);
+
+  const selectTemplate = (id: string) => {
+    setSelectedPdfTemplateId(id);
+    setTemplateId(id);
+    setTemplate(getPdfTemplate(id));
+    setError(null);
+  };
+
+  const updateOverrides = (changes: { primaryColor?: string; logoDataUrl?: string | undefined }) => {
+    const next = { ...template, ...changes };
+    savePdfTemplateOverrides(templateId, { primaryColor: next.primaryColor, logoDataUrl: next.logoDataUrl });
+    setTemplate(next);
+  };
+
+  const handleLogo = (file: File | undefined) => {
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('Logo images must be smaller than 512 KB.');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setError(null);
+      updateOverrides({ logoDataUrl: reader.result as string });
+    };
+    reader.onerror = () => setError('Failed to read the logo image.');
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 bg-gray-50 space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700">Template</span>
+          <select
+            value={templateId}
+            onChange={(e) => selectTemplate(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            {PDF_TEMPLATES.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="block text-sm font-medium text-gray-700">Theme color</span>
+          <input
+            type="color"
+            value={template.primaryColor}
+            onChange={(e) => updateOverrides({ primaryColor: e.target.value })}
+            className="mt-1 h-9 w-full rounded-md border-gray-300 cursor-pointer"
+          />
+        </label>
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700">Logo</span>
+          {template.logoDataUrl ? (
+            <div className="mt-1 flex items-center gap-2">
+              <img src={template.logoDataUrl} alt="Logo" className="h-9 max-w-[120px] object-contain bg-white rounded border" />
+              <button
+                onClick={() => updateOverrides({ logoDataUrl: undefined })}
+                className="p-1 text-gray-400 hover:text-red-600"
+                aria-label="Remove logo"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <label className="mt-1 inline-flex items-center gap-2 px-3 py-2 text-sm border border-dashed border-gray-300 rounded-md text-gray-600 hover:border-indigo-400 cursor-pointer">
+              <ImagePlus className="w-4 h-4" />
+              Upload PNG or JPEG
+              <input
+                type="file"
+                accept="image/png,image/jpeg"
+                className="hidden"
+                onChange={(e) => handleLogo(e.target.files?.[0])}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { AudioWaveform } from './AudioWaveform';
+import { AudioProcessor } from '../services/audioProcessor';
+import { AUDIO_PROFILES, buildProfileFilters, getAudioProfile } from '../services/audioProfiles';
+import { formatTimestamp } from '../utils/formatTime';
+
+interface PreprocessingPanelProps {
+  audioFile: File;
+  profileId: string;
+  onProfileChange: (profileId: string) => void;
+  // Where in the recording the preview excerpt starts
+  previewStart: number;
+}
+
+const PREVIEW_SECONDS = 30;
+
+interface Preview {
+  before: File;
+  after: File;
+  filters: string;
+  start: number;
+}
+
+export function PreprocessingPanel({ audioFile, profileId, onProfileChange, previewStart }: PreprocessingPanelProps) {
+  const profile = getAudioProfile(profileId);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [showing, setShowing] = useState<'before' | 'after'>('after');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A preview only makes sense for the profile and file it was made with
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [profileId, audioFile]);
+
+  const handlePreview = async () => {
+    setLoading(true);
+    setError(null);
+    const processor = new AudioProcessor(() => {});
+    try {
+      const start = Math.max(0, Math.floor(previewStart));
+      const result = await processor.previewProfile(audioFile, profile, start, PREVIEW_SECONDS);
+      setPreview({
+        before: new File([result.before], 'before.wav', { type: 'audio/wav' }),
+        after: new File([result.after], 'after.wav', { type: 'audio/wav' }),
+        filters: result.filters,
+        start
+      });
+      setShowing('after');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the preview');
+    } finally {
+      // Frees the ffmpeg worker used for the preview
+      processor.dispose();
+      setLoading(false);
+    }
+  };
+
+  const filters = buildProfileFilters(profile);
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-sm font-medium text-gray-700">Audio preprocessing</h3>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select
+          value={profile.id}
+          onChange={(e) => onProfileChange(e.target.value)}
+          className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          aria-label="Preprocessing profile"
+        >
+          {AUDIO_PROFILES.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-600 flex-1">{profile.description}</p>
+        {profile.id !== AUDIO_PROFILES[0].id && (
+          <button
+            onClick={handlePreview}
+            disabled={loading}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {loading ? 'Rendering preview...' : `Preview ${PREVIEW_SECONDS}s from ${formatTimestamp(previewStart)}`}
+          </button>
+        )}
+      </div>
+
+      {(filters.length > 0 || profile.removeSilence) && (
+        <p className="text-xs text-gray-500">
+          ffmpeg filters: <code className="bg-gray-100 px-1 rounded">
+            {[...(profile.removeSilence ? ['aselect (silences removed)'] : []), ...filters].join(', ')}
+          </code>
+        </p>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {preview && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              Excerpt from {formatTimestamp(preview.start)}, as 16 kHz mono like the transcription input
+            </p>
+            <div className="flex rounded-md border overflow-hidden text-sm">
+              {(['before', 'after'] as const).map(version => (
+                <button
+                  key={version}
+                  onClick={() => setShowing(version)}
+                  className={`px-3 py-1 ${showing === version ? 'bg-indigo-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  {version === 'before' ? 'Before' : 'After'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <AudioWaveform key={showing} audioFile={showing === 'before' ? preview.before : preview.after} />
+        </div>
+      )}
+    </div>
+  );
+}
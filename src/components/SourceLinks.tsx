@@ -0,0 +1,45 @@
+import { AlertTriangle, Play } from 'lucide-react';
+import { Citation, StatementSource } from '../types/minutes';
+import { formatTimestamp } from '../utils/formatTime';
+
+interface SourceLinksProps {
+  source?: StatementSource;
+  // Plays the cited excerpt; without it the time ranges are shown as plain text
+  onPlay?: (citation: Citation) => void;
+}
+
+export function SourceLinks({ source, onPlay }: SourceLinksProps) {
+  if (!source) return null;
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1 ml-2 align-middle print:hidden">
+      {source.citations.map(citation => {
+        const label = `${formatTimestamp(citation.start)}–${formatTimestamp(citation.end)}`;
+        return onPlay ? (
+          <button
+            key={citation.segmentIds[0]}
+            onClick={() => onPlay(citation)}
+            className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs text-indigo-700 bg-indigo-50 hover:bg-indigo-100"
+            title="Play this part of the recording"
+          >
+            <Play className="w-3 h-3" />
+            {label}
+          </button>
+        ) : (
+          <span key={citation.segmentIds[0]} className="px-1.5 py-0.5 rounded text-xs text-gray-600 bg-gray-100">
+            {label}
+          </span>
+        );
+      })}
+      {source.unsupported && (
+        <span
+          className="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs text-amber-800 bg-amber-100"
+          title="No supporting text was found in the transcript, so this may not have been said. Check it before sharing the minutes."
+        >
+          <AlertTriangle className="w-3 h-3" />
+          Possibly inaccurate
+        </span>
+      )}
+    </span>
+  );
+}
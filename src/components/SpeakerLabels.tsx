@@ -0,0 +1,54 @@
+import { Users } from 'lucide-react';
+import { Speaker } from '../types/transcript';
+import { getSpeakerColor } from '../utils/speakers';
+
+interface SpeakerLabelsProps {
+  speakers: Speaker[];
+  onRename: (speakerId: string, name: string) => void;
+  onApply?: () => void;
+  applying?: boolean;
+  dirty?: boolean;
+}
+
+export function SpeakerLabels({ speakers, onRename, onApply, applying = false, dirty = false }: SpeakerLabelsProps) {
+  if (speakers.length === 0) return null;
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Users className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-sm font-medium text-gray-700">Speakers</h3>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {speakers.map(speaker => (
+          <label key={speaker.id} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full shrink-0"
+              style={{ backgroundColor: getSpeakerColor(speakers, speaker.id) }}
+            />
+            <input
+              type="text"
+              value={speaker.name}
+              onChange={(e) => onRename(speaker.id, e.target.value)}
+              aria-label={`Name for ${speaker.id.replace('_', ' ')}`}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      {onApply && (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={onApply}
+            disabled={!dirty || applying}
+            className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {applying ? 'Updating minutes...' : 'Update minutes with these names'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { Transcript } from '../types/transcript';
+import { formatTimestamp } from '../utils/formatTime';
+import { getLanguageName } from '../utils/languages';
+import { getSpeakerColor, getSpeakerName } from '../utils/speakers';
+
+interface TranscriptViewerProps {
+  transcript: Transcript;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+export function TranscriptViewer({ transcript, currentTime, onSeek }: TranscriptViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const speakers = transcript.speakers ?? [];
+
+  const activeId = transcript.segments.find(
+    segment => currentTime >= segment.start && currentTime < segment.end
+  )?.id;
+
+  // Keep the playing sentence visible without scrolling the whole page
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!container || !active) return;
+
+    const top = active.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeId]);
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b bg-gray-50 rounded-t-lg">
+        <MessageSquareText className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-sm font-medium text-gray-700">Transcript</h3>
+        {transcript.language && (
+          <span className="ml-auto text-xs text-gray-500">Spoken language: {getLanguageName(transcript.language)}</span>
+        )}
+      </div>
+
+      <div ref={containerRef} className="max-h-80 overflow-y-auto p-2 space-y-1">
+        {transcript.segments.length === 0 ? (
+          <p className="p-2 text-sm text-gray-600 whitespace-pre-wrap">{transcript.text}</p>
+        ) : (
+          transcript.segments.map(segment => {
+            const isActive = segment.id === activeId;
+            return (
+              <button
+                key={segment.id}
+                ref={isActive ? activeRef : undefined}
+                onClick={() => onSeek(segment.start)}
+                className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-md text-sm transition-colors ${
+                  isActive ? 'bg-indigo-100 text-indigo-900' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                <span className="shrink-0 w-14 font-mono text-xs text-gray-400 pt-0.5">
+                  {formatTimestamp(segment.start)}
+                </span>
+                <span>
+                  {segment.speaker && (
+                    <span
+                      className="mr-2 text-xs font-semibold"
+                      style={{ color: getSpeakerColor(speakers, segment.speaker) }}
+                    >
+                      {getSpeakerName(speakers, segment.speaker)}
+                    </span>
+                  )}
+                  {segment.text}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { useCallback, useState } from 'react';
+
+const MAX_HISTORY = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Consecutive changes with the same key (e.g. typing in one field) form one undo step
+  lastKey?: string;
+}
+
+export function useHistory<T>(initial: T) {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+
+  const set = useCallback((next: T, mergeKey?: string) => {
+    setState(current => {
+      if (mergeKey && mergeKey === current.lastKey) {
+        return { ...current, present: next, future: [] };
+      }
+      return {
+        past: [...current.past, current.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+        lastKey: mergeKey
+      };
+    });
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(current => {
+      if (current.past.length === 0) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future]
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(current => {
+      if (current.future.length === 0) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1)
+      };
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0
+  };
+}
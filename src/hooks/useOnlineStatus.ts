@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { isOnline } from '../services/connectivity';
+
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(isOnline);
+
+  useEffect(() => {
+    const update = () => setOnline(isOnline());
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
@@ -0,0 +1,143 @@
+import { Transcript, TranscriptSegment } from '../types/transcript';
+
+// Whisper rejects uploads larger than 25 MB, so long recordings are split into
+// overlapping chunks (preferably at silences) and transcribed one by one.
+export const MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+
+// 16 kHz, mono, 16-bit PCM as produced by convertToWav
+export const WAV_SAMPLE_RATE = 16000;
+export const WAV_BYTES_PER_SECOND = WAV_SAMPLE_RATE * 2;
+const WAV_HEADER_BYTES = 44;
+
+const TARGET_CHUNK_SECONDS = 10 * 60;
+const CHUNK_OVERLAP_SECONDS = 5;
+const SILENCE_SEARCH_SECONDS = 60;
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk {
+  index: number;
+  start: number;
+  end: number;
+}
+
+export function getWavDuration(wavBlob: Blob): number {
+  return Math.max(0, wavBlob.size - WAV_HEADER_BYTES) / WAV_BYTES_PER_SECOND;
+}
+
+// Encodes 16 kHz mono samples in the same WAV layout convertToWav produces
+export function encodeWav(samples: Float32Array): Blob {
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_BYTES + samples.length * 2));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, WAV_SAMPLE_RATE, true);
+  view.setUint32(28, WAV_BYTES_PER_SECOND, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(WAV_HEADER_BYTES + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+export function parseSilenceLog(lines: string[]): SilenceInterval[] {
+  const silences: SilenceInterval[] = [];
+  let pendingStart: number | null = null;
+
+  for (const line of lines) {
+    const startMatch = line.match(/silence_start:\s*(-?\d+(?:\.\d+)?)/);
+    if (startMatch) {
+      pendingStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*(\d+(?:\.\d+)?)/);
+    if (endMatch && pendingStart !== null) {
+      silences.push({ start: pendingStart, end: parseFloat(endMatch[1]) });
+      pendingStart = null;
+    }
+  }
+
+  return silences;
+}
+
+export function planChunks(duration: number, silences: SilenceInterval[]): AudioChunk[] {
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < duration) {
+    const target = start + TARGET_CHUNK_SECONDS;
+    if (target >= duration) {
+      chunks.push({ index: chunks.length, start, end: duration });
+      break;
+    }
+
+    // Prefer cutting in the middle of the silence closest to the target
+    // point, but never later than the target so chunks stay under the limit.
+    const candidates = silences
+      .map(silence => (silence.start + silence.end) / 2)
+      .filter(point => point <= target && point >= target - SILENCE_SEARCH_SECONDS);
+    const cut = candidates.length > 0 ? Math.max(...candidates) : target;
+
+    chunks.push({
+      index: chunks.length,
+      start,
+      end: Math.min(duration, cut + CHUNK_OVERLAP_SECONDS)
+    });
+    start = Math.max(start + 1, cut - CHUNK_OVERLAP_SECONDS);
+  }
+
+  return chunks;
+}
+
+export interface ChunkTranscript {
+  chunk: AudioChunk;
+  transcript: Transcript;
+}
+
+// Joins chunk transcripts into one timeline, removing what the chunk overlap
+// transcribed twice. Each overlap is split at its midpoint and a segment is
+// kept only by the chunk whose side of the split its midpoint falls on.
+export function mergeChunkTranscripts(parts: ChunkTranscript[]): Transcript {
+  const segments: TranscriptSegment[] = [];
+
+  parts.forEach(({ chunk, transcript }, i) => {
+    const previous = parts[i - 1]?.chunk;
+    const next = parts[i + 1]?.chunk;
+    const lowerBound = previous ? (chunk.start + previous.end) / 2 : -Infinity;
+    const upperBound = next ? (next.start + chunk.end) / 2 : Infinity;
+
+    for (const segment of transcript.segments) {
+      const start = segment.start + chunk.start;
+      const end = segment.end + chunk.start;
+      const midpoint = (start + end) / 2;
+      if (midpoint >= lowerBound && midpoint < upperBound) {
+        segments.push({ ...segment, id: segments.length, start, end });
+      }
+    }
+  });
+
+  const last = parts[parts.length - 1];
+  return {
+    text: segments.map(segment => segment.text.trim()).join(' '),
+    duration: last ? last.chunk.end : 0,
+    language: parts[0]?.transcript.language,
+    segments
+  };
+}
@@ -1,32 +1,97 @@
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { toBlobURL, fetchFile } from '@ffmpeg/util';
-import OpenAI from 'openai';
+import { fetchFile } from '@ffmpeg/util';
+import {
+  AudioChunk,
+  ChunkTranscript,
+  SilenceInterval,
+  MAX_UPLOAD_BYTES,
+  getWavDuration,
+  mergeChunkTranscripts,
+  parseSilenceLog,
+  planChunks
+} from './audioChunker';
+import {
+  AUDIO_PROFILES,
+  AudioProfile,
+  SILENCE_MIN_SECONDS,
+  SILENCE_PADDING_SECONDS,
+  SILENCE_THRESHOLD_DB,
+  buildProfileFilters
+} from './audioProfiles';
+import { isOnline } from './connectivity';
+import {
+  MediaFormatError,
+  MediaStreamInfo,
+  describeMediaFailure,
+  getFileExtension,
+  parseProbeLog,
+  pickAudioStream
+} from './mediaProbe';
+import { withRetry } from './retry';
+import { buildMinutesJsonShape, parseMinutes } from './minutesSchema';
+import { WindowAnalysis, mergeWindowMinutes, planTranscriptWindows } from './transcriptWindows';
+import { AIProviders, AnalysisRequest, createProviders } from './providers';
+import { LanguageCode } from '../types/language';
+import { Minutes, MinutesTemplate } from '../types/minutes';
+import { Speaker, Transcript } from '../types/transcript';
+import { CutList } from '../types/edits';
+import { buildSelectFilter, removeSilences } from '../utils/cutList';
+import { formatTimestamp } from '../utils/formatTime';
+import { attachSources, shareSources } from '../utils/citations';
+import { getLanguageName, toLanguageCode } from '../utils/languages';
+import { formatTranscriptForPrompt } from '../utils/speakers';
 
-const FFMPEG_CORE_VERSION = '0.12.6';
+const SPEAKER_BATCH_SEGMENTS = 120;
 
-const openai = new OpenAI({
-  apiKey: import.meta.env.VITE_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-});
+// The template's own guidance and the sections it asks for, as prompt text
+function describeTemplate(template?: MinutesTemplate): string {
+  const sections = template?.sections ?? [];
+  return [
+    template?.instructions.trim(),
+    sections.length > 0
+      ? `Besides the topics, fill in these sections as lists of short statements, using an empty list when the meeting did not cover one:\n${
+        sections.map(section => `- "${section.id}" (${section.title}): ${section.instructions}`).join('\n')
+      }`
+      : ''
+  ].filter(Boolean).join('\n');
+}
 
-type ProcessStage = 'converting' | 'transcribing' | 'analyzing';
+export type ProcessStage = 'converting' | 'transcribing' | 'analyzing';
 
-interface ProcessingProgress {
+export interface ProcessingProgress {
   converting: number;
   transcribing: number;
   analyzing: number;
 }
 
-interface ProcessingDetails {
+export interface ProcessingDetails {
   bitrate?: string;
   sampleRate?: string;
   duration?: string;
   size?: string;
   format?: string;
   stage?: string;
+  // The ffmpeg audio filter chain used for conversion
+  filters?: string;
+}
+
+export interface ConversionOptions {
+  cutList?: CutList;
+  profile?: AudioProfile;
+}
+
+export interface ConvertedAudio {
+  wav: Blob;
+  cutList?: CutList;
+}
+
+export interface ProfilePreview {
+  before: Blob;
+  after: Blob;
+  filters: string;
 }
 
-type ProgressCallback = (
+export type ProgressCallback = (
   stage: ProcessStage,
   progress: ProcessingProgress,
   details?: ProcessingDetails
@@ -35,17 +100,24 @@ type ProgressCallback = (
 export class AudioProcessor {
   private ffmpeg: FFmpeg;
   private initialized: boolean = false;
-  private abortController: AbortController | null = null;
+  private readonly abortController = new AbortController();
+  // ffmpeg work in flight; cancel() only needs to stop the worker while there is some
+  private ffmpegBusy = 0;
+  private trackConversionProgress: boolean = false;
+  private logListener: ((message: string) => void) | null = null;
+  private conversionDetails: ProcessingDetails = {};
   private onProgress: ProgressCallback;
+  private providers: AIProviders;
   private progress: ProcessingProgress = {
     converting: 0,
     transcribing: 0,
     analyzing: 0
   };
 
-  constructor(onProgress: ProgressCallback) {
+  constructor(onProgress: ProgressCallback, providers: AIProviders = createProviders()) {
     this.ffmpeg = new FFmpeg();
     this.onProgress = onProgress;
+    this.providers = providers;
   }
 
   private updateProgress(
@@ -57,17 +129,57 @@ export class AudioProcessor {
     this.onProgress(stage, { ...this.progress }, details);
   }
 
+  // Marks a stage as done when its output already exists
+  skipStage(stage: ProcessStage, details?: ProcessingDetails) {
+    this.updateProgress(stage, 1, details);
+  }
+
+  throwIfCancelled() {
+    if (this.abortController.signal.aborted) {
+      throw new Error('Operation cancelled');
+    }
+  }
+
+  // Stops every stage for good: API requests in flight are aborted, and a
+  // running ffmpeg command is interrupted by terminating its worker, which
+  // also discards the temp files it held
   async cancel() {
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
+    this.abortController.abort();
+    if (this.ffmpegBusy > 0) {
+      this.terminateFFmpeg();
     }
-    if (this.ffmpeg) {
-      await this.ffmpeg.terminate();
-      this.initialized = false;
+  }
+
+  // Frees the ffmpeg worker once the processor is no longer needed
+  dispose() {
+    this.terminateFFmpeg();
+  }
+
+  private terminateFFmpeg() {
+    this.ffmpeg.terminate();
+    this.initialized = false;
+  }
+
+  // Runs an ffmpeg command that cancel() can interrupt
+  private async exec(args: string[]): Promise<number> {
+    this.throwIfCancelled();
+    this.ffmpegBusy++;
+    try {
+      return await this.ffmpeg.exec(args);
+    } catch (error) {
+      this.throwIfCancelled();
+      throw error;
+    } finally {
+      this.ffmpegBusy--;
     }
   }
 
+  // Temp files live in the worker's memory, so a terminated worker took them along
+  private async removeFiles(...fileNames: string[]) {
+    if (!this.initialized) return;
+    await Promise.all(fileNames.map(name => this.ffmpeg.deleteFile(name).catch(() => {})));
+  }
+
   private async ensureFFmpeg() {
     if (this.initialized && this.ffmpeg) return this.ffmpeg;
 
@@ -75,143 +187,633 @@ export class AudioProcessor {
       this.ffmpeg = new FFmpeg();
       
       this.ffmpeg.on('progress', ({ progress, time }) => {
+        if (!this.trackConversionProgress) return;
         this.updateProgress('converting', progress, {
+          ...this.conversionDetails,
           stage: 'Processing audio',
           duration: time ? `${Math.round(time * 100) / 100}s processed` : undefined
         });
       });
 
       this.ffmpeg.on('log', ({ message }) => {
+        this.logListener?.(message);
+        if (!this.trackConversionProgress) return;
+
         const bitrateMatch = message.match(/bitrate=\s*(\d+\.\d+|\d+)\s*kbits\/s/);
         if (bitrateMatch) {
           this.updateProgress('converting', this.progress.converting, {
+            ...this.conversionDetails,
             stage: 'Processing audio',
             bitrate: `${bitrateMatch[1]} kbps`
           });
         }
       });
 
-      const baseURL = `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/umd`;
-      
-      await this.ffmpeg.load({
-        coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-        wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        workerURL: await toBlobURL(`${baseURL}/ffmpeg-core.worker.js`, 'text/javascript')
-      });
+      // Served by the app itself (see scripts/copy-ffmpeg-core.mjs) and cached
+      // by the service worker, so conversion also works offline
+      const baseURL = new URL(`${import.meta.env.BASE_URL}ffmpeg/`, window.location.href).href;
+
+      // Loading the core takes a while, so cancel() may interrupt it like a command
+      this.ffmpegBusy++;
+      try {
+        await this.ffmpeg.load({
+          coreURL: `${baseURL}ffmpeg-core.js`,
+          wasmURL: `${baseURL}ffmpeg-core.wasm`
+        });
+      } finally {
+        this.ffmpegBusy--;
+      }
       
       this.initialized = true;
       return this.ffmpeg;
     } catch (error) {
+      this.throwIfCancelled();
       if (error instanceof Error) {
         if (error.message.includes('aborted')) {
           throw new Error('Operation cancelled');
         }
         if (error.message.includes('failed to fetch')) {
-          throw new Error('Failed to load audio processing components. Please check your internet connection.');
+          throw new Error('Failed to load audio processing components. Please reload the page and try again.');
         }
       }
       throw new Error('Failed to initialize audio processing. Please try again.');
     }
   }
 
-  async convertToWav(audioFile: File): Promise<Blob> {
-    this.abortController = new AbortController();
+  // With a cut list, only the kept ranges end up in the output. Silence
+  // removal adds to the cut list, so the returned one is what was applied.
+  async convertToWav(audioFile: File, options: ConversionOptions = {}): Promise<ConvertedAudio> {
+    const profile = options.profile ?? AUDIO_PROFILES[0];
     
     try {
+      this.throwIfCancelled();
       const ffmpeg = await this.ensureFFmpeg();
-      
-      if (this.abortController.signal.aborted) {
-        throw new Error('Operation cancelled');
-      }
+      this.throwIfCancelled();
 
-      const inputFileName = 'input' + audioFile.name.substring(audioFile.name.lastIndexOf('.'));
+      const inputFileName = 'input' + getFileExtension(audioFile.name);
       const outputFileName = 'output.wav';
 
       await ffmpeg.writeFile(inputFileName, await fetchFile(audioFile));
-      
-      // Convert to WAV with progress tracking
-      await ffmpeg.exec([
+
+      try {
+        const stream = await this.probeAudioStream(inputFileName, audioFile);
+
+        let cutList = options.cutList;
+        if (profile.removeSilence) {
+          this.updateProgress('converting', 0, { ...this.conversionDetails, stage: 'Detecting silences' });
+          const { silences, duration } = await this.detectSilences(inputFileName, stream);
+          cutList = removeSilences(
+            cutList ?? { sourceDuration: duration, kept: [{ start: 0, end: duration }] },
+            silences,
+            SILENCE_MIN_SECONDS,
+            SILENCE_PADDING_SECONDS
+          );
+        }
+
+        const filters = [
+          ...(cutList ? [buildSelectFilter(cutList.kept)] : []),
+          ...buildProfileFilters(profile)
+        ];
+        this.conversionDetails = {
+          ...this.conversionDetails,
+          filters: filters.length > 0 ? filters.join(',') : 'none'
+        };
+
+        await this.runConversion(inputFileName, outputFileName, stream, filters, audioFile.name);
+        const outputData = await ffmpeg.readFile(outputFileName);
+        return { wav: new Blob([outputData], { type: 'audio/wav' }), cutList };
+      } finally {
+        await this.removeFiles(inputFileName, outputFileName);
+      }
+    } catch (error) {
+      this.throwIfCancelled();
+      if (error instanceof MediaFormatError) {
+        throw error;
+      }
+      throw new Error('Failed to convert audio: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Renders the same excerpt with and without a profile so they can be compared
+  async previewProfile(audioFile: File, profile: AudioProfile, start: number, duration: number): Promise<ProfilePreview> {
+    const ffmpeg = await this.ensureFFmpeg();
+    const inputFileName = 'preview_input' + getFileExtension(audioFile.name);
+    const excerptFileName = 'preview_excerpt.wav';
+    const beforeFileName = 'preview_before.wav';
+    const afterFileName = 'preview_after.wav';
+
+    await ffmpeg.writeFile(inputFileName, await fetchFile(audioFile));
+    try {
+      const stream = await this.probeAudioStream(inputFileName, audioFile);
+
+      // Cut the excerpt once at full quality so both versions start from the same audio
+      const exitCode = await this.exec([
+        '-ss', start.toFixed(3),
+        '-t', duration.toFixed(3),
         '-i', inputFileName,
+        '-map', `0:${stream.index}`,
+        '-vn',
+        '-c:a', 'pcm_s16le',
+        excerptFileName
+      ]);
+      if (exitCode !== 0) {
+        throw new Error('Failed to create the preview excerpt');
+      }
+      const excerptStream = { ...stream, index: 0 };
+
+      let filters = buildProfileFilters(profile);
+      if (profile.removeSilence) {
+        const detected = await this.detectSilences(excerptFileName, excerptStream);
+        const cutList = removeSilences(
+          { sourceDuration: detected.duration, kept: [{ start: 0, end: detected.duration }] },
+          detected.silences,
+          SILENCE_MIN_SECONDS,
+          SILENCE_PADDING_SECONDS
+        );
+        filters = [buildSelectFilter(cutList.kept), ...filters];
+      }
+
+      await this.runConversion(excerptFileName, beforeFileName, excerptStream, [], audioFile.name);
+      await this.runConversion(excerptFileName, afterFileName, excerptStream, filters, audioFile.name);
+
+      const before = await ffmpeg.readFile(beforeFileName);
+      const after = await ffmpeg.readFile(afterFileName);
+
+      return {
+        before: new Blob([before], { type: 'audio/wav' }),
+        after: new Blob([after], { type: 'audio/wav' }),
+        filters: filters.join(',') || 'none'
+      };
+    } finally {
+      await this.removeFiles(inputFileName, excerptFileName, beforeFileName, afterFileName);
+    }
+  }
+
+  private async runConversion(
+    inputFileName: string,
+    outputFileName: string,
+    stream: MediaStreamInfo,
+    filters: string[],
+    sourceName: string
+  ) {
+    const logLines: string[] = [];
+    this.logListener = (message) => logLines.push(message);
+    this.trackConversionProgress = true;
+    let exitCode: number;
+    try {
+      exitCode = await this.exec([
+        '-i', inputFileName,
+        '-map', `0:${stream.index}`,
+        '-vn',
+        ...(filters.length > 0 ? ['-af', filters.join(',')] : []),
         '-ar', '16000',
         '-ac', '1',
         '-c:a', 'pcm_s16le',
         '-progress', 'pipe:1',
         outputFileName
       ]);
+    } finally {
+      this.trackConversionProgress = false;
+      this.logListener = null;
+    }
+    if (exitCode !== 0) {
+      throw describeMediaFailure(logLines, sourceName);
+    }
+  }
 
-      const outputData = await ffmpeg.readFile(outputFileName);
-      
-      // Cleanup
-      await ffmpeg.rm(inputFileName);
-      await ffmpeg.rm(outputFileName);
-      
-      return new Blob([outputData], { type: 'audio/wav' });
-    } catch (error) {
-      if (error instanceof Error && error.message === 'Operation cancelled') {
-        throw error;
+  // Finds long pauses in the input; also reports its duration, which
+  // recordings made in the browser often leave out of their headers
+  private async detectSilences(
+    inputFileName: string,
+    stream: MediaStreamInfo
+  ): Promise<{ silences: SilenceInterval[]; duration: number }> {
+    const logLines: string[] = [];
+    this.logListener = (message) => logLines.push(message);
+    try {
+      await this.exec([
+        '-i', inputFileName,
+        '-map', `0:${stream.index}`,
+        '-af', `silencedetect=noise=${SILENCE_THRESHOLD_DB}dB:d=${SILENCE_MIN_SECONDS}`,
+        '-f', 'null',
+        '-'
+      ]);
+    } finally {
+      this.logListener = null;
+    }
+
+    let duration = 0;
+    for (const line of logLines) {
+      // Stats lines can hold several carriage-return separated updates
+      for (const match of line.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)) {
+        duration = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
       }
-      throw new Error('Failed to convert audio: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
+    return { silences: parseSilenceLog(logLines), duration };
   }
 
-  async transcribeAudio(audioBlob: Blob): Promise<string> {
-    if (this.abortController?.signal.aborted) {
-      throw new Error('Operation cancelled');
+  // Lists the streams in the input and picks the audio track to convert
+  private async probeAudioStream(inputFileName: string, audioFile: File): Promise<MediaStreamInfo> {
+    const logLines: string[] = [];
+    this.logListener = (message) => logLines.push(message);
+    try {
+      // Without an output ffmpeg only prints the input details and exits with an error
+      await this.exec(['-hide_banner', '-i', inputFileName]);
+    } finally {
+      this.logListener = null;
+    }
+
+    const probe = parseProbeLog(logLines);
+    if (probe.streams.length === 0) {
+      throw describeMediaFailure(logLines, audioFile.name);
     }
 
+    const stream = pickAudioStream(probe.streams);
+    if (!stream) {
+      throw new MediaFormatError('This file has no audio track to transcribe.');
+    }
+
+    const audioStreams = probe.streams.filter(s => s.type === 'audio');
+    this.conversionDetails = {
+      stage: audioStreams.length > 1
+        ? `Extracting audio track ${audioStreams.indexOf(stream) + 1} of ${audioStreams.length}`
+        : 'Extracting audio',
+      format: [probe.format?.split(',')[0], stream.codec].filter(Boolean).join(' / '),
+      sampleRate: stream.sampleRate ? `${stream.sampleRate} Hz` : undefined,
+      bitrate: stream.bitrate ? `${stream.bitrate} kbps` : undefined,
+      duration: probe.duration ? formatTimestamp(probe.duration) : undefined,
+      size: `${(audioFile.size / (1024 * 1024)).toFixed(1)} MB`
+    };
+    this.updateProgress('converting', 0, this.conversionDetails);
+
+    return stream;
+  }
+
+  private async splitAudio(wavBlob: Blob): Promise<Array<{ chunk: AudioChunk; blob: Blob }>> {
+    const ffmpeg = await this.ensureFFmpeg();
+    const sourceFileName = 'source.wav';
+    await ffmpeg.writeFile(sourceFileName, await fetchFile(wavBlob));
+
     try {
-      this.updateProgress('transcribing', 0.1);
-      
-      const transcription = await openai.audio.transcriptions.create({
-        file: audioBlob,
-        model: 'whisper-1',
-        language: 'auto'
-      });
+      this.updateProgress('transcribing', 0, { stage: 'Detecting pauses for splitting' });
+
+      const logLines: string[] = [];
+      this.logListener = (message) => logLines.push(message);
+      try {
+        await this.exec([
+          '-i', sourceFileName,
+          '-af', 'silencedetect=noise=-35dB:d=0.5',
+          '-f', 'null',
+          '-'
+        ]);
+      } finally {
+        this.logListener = null;
+      }
+
+      const chunks = planChunks(getWavDuration(wavBlob), parseSilenceLog(logLines));
+      const parts: Array<{ chunk: AudioChunk; blob: Blob }> = [];
+
+      for (const chunk of chunks) {
+        const chunkFileName = `chunk_${chunk.index}.wav`;
+        try {
+          const exitCode = await this.exec([
+            '-ss', chunk.start.toFixed(3),
+            '-t', (chunk.end - chunk.start).toFixed(3),
+            '-i', sourceFileName,
+            '-c', 'copy',
+            chunkFileName
+          ]);
+          if (exitCode !== 0) {
+            throw new Error(`Failed to cut part ${chunk.index + 1} of ${chunks.length} from the audio`);
+          }
+          const chunkData = await ffmpeg.readFile(chunkFileName);
+          parts.push({ chunk, blob: new Blob([chunkData], { type: 'audio/wav' }) });
+        } finally {
+          await this.removeFiles(chunkFileName);
+        }
+      }
+
+      return parts;
+    } finally {
+      await this.removeFiles(sourceFileName);
+    }
+  }
+
+  // The providers wait for the connection themselves; this tells the user why nothing happens
+  private notifyIfOffline(stage: ProcessStage) {
+    if (!isOnline()) {
+      this.updateProgress(stage, this.progress[stage], { stage: 'Waiting for an internet connection...' });
+    }
+  }
+
+  // Rate limits and overloaded servers are retried with backoff before the stage fails
+  private callProvider<T>(stage: ProcessStage, operation: () => Promise<T>): Promise<T> {
+    this.notifyIfOffline(stage);
+    return withRetry(operation, {
+      signal: this.abortController.signal,
+      onRetry: (attempt, delayMs, error) => {
+        console.warn(`Retrying ${stage} after a transient error:`, error);
+        this.updateProgress(stage, this.progress[stage], {
+          stage: `Service busy, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})`
+        });
+      }
+    });
+  }
+
+  // Without a language the transcription detects it
+  private async transcribeChunk(audioBlob: Blob, language?: LanguageCode): Promise<Transcript> {
+    return this.callProvider('transcribing', () => this.providers.transcription.transcribe({
+      audio: audioBlob,
+      language
+    }, { signal: this.abortController.signal }));
+  }
+
+  async transcribeAudio(audioBlob: Blob, language?: LanguageCode): Promise<Transcript> {
+    this.throwIfCancelled();
+
+    try {
+      if (audioBlob.size <= MAX_UPLOAD_BYTES) {
+        this.updateProgress('transcribing', 0.1);
+        const transcript = await this.transcribeChunk(audioBlob, language);
+        this.updateProgress('transcribing', 1);
+        return transcript;
+      }
+
+      const parts = await this.splitAudio(audioBlob);
+      const transcripts: ChunkTranscript[] = [];
+
+      for (let i = 0; i < parts.length; i++) {
+        this.throwIfCancelled();
+
+        this.updateProgress('transcribing', i / parts.length, {
+          stage: `Transcribing part ${i + 1} of ${parts.length}`
+        });
+        const transcript = await this.transcribeChunk(parts[i].blob, language);
+        transcripts.push({ chunk: parts[i].chunk, transcript });
+        // Keep later parts in the language detected for the first one, so a
+        // quiet or short part isn't transcribed as another language
+        language ??= toLanguageCode(transcript.language);
+      }
 
       this.updateProgress('transcribing', 1);
-      return transcription.text;
+      return mergeChunkTranscripts(transcripts);
     } catch (error) {
+      this.throwIfCancelled();
       if (error instanceof Error) {
         if (error.message.includes('API key')) {
-          throw new Error('Invalid or missing OpenAI API key. Please check your environment variables.');
+          throw new Error('Invalid or missing OpenAI API key. Please check the API server configuration.');
         }
       }
       throw new Error('Failed to transcribe audio: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
 
-  async segmentByTopics(transcription: string): Promise<any> {
-    if (this.abortController?.signal.aborted) {
-      throw new Error('Operation cancelled');
+  // Whisper has no diarization, so speaker turns are inferred by the model
+  // from the wording and flow of the numbered segments, in batches so long
+  // meetings fit the context window.
+  async identifySpeakers(transcript: Transcript): Promise<Transcript> {
+    this.throwIfCancelled();
+
+    try {
+      const assignments = new Map<number, number>();
+      const batches = Math.ceil(transcript.segments.length / SPEAKER_BATCH_SEGMENTS);
+
+      for (let batch = 0; batch < batches; batch++) {
+        this.throwIfCancelled();
+
+        this.updateProgress('analyzing', (batch / batches) * 0.3, {
+          stage: 'Identifying speakers'
+        });
+
+        const offset = batch * SPEAKER_BATCH_SEGMENTS;
+        const context = transcript.segments
+          .slice(Math.max(0, offset - 10), offset)
+          .map(segment => `[${segment.id}] (Speaker ${assignments.get(segment.id) ?? '?'}) ${segment.text}`)
+          .join('\n');
+        const lines = transcript.segments
+          .slice(offset, offset + SPEAKER_BATCH_SEGMENTS)
+          .map(segment => `[${segment.id}] ${segment.text}`)
+          .join('\n');
+
+        const content = await this.callProvider('analyzing', () => this.providers.analysis.complete({
+          purpose: 'speakers',
+          messages: [
+            {
+              role: "system",
+              content: "You are an expert at speaker diarization of meeting transcripts. Given numbered transcript segments, decide which speaker said each one based on turn-taking, questions and answers, and how people address each other. Number speakers from 1 in order of first appearance and keep the numbering consistent with any previous assignments provided. Respond with JSON of the form {\"segments\": [{\"id\": <segment id>, \"speaker\": <speaker number>}]}."
+            },
+            {
+              role: "user",
+              content: (context ? `Previously assigned segments:\n${context}\n\n` : '') + `Assign a speaker to each of these segments:\n${lines}`
+            }
+          ]
+        }, { signal: this.abortController.signal }));
+
+        const parsed = JSON.parse(content || '{}');
+        for (const entry of parsed.segments ?? []) {
+          if (typeof entry?.id === 'number' && typeof entry?.speaker === 'number') {
+            assignments.set(entry.id, entry.speaker);
+          }
+        }
+      }
+
+      const speakerNumbers = [...new Set(assignments.values())].sort((a, b) => a - b);
+      const speakers: Speaker[] = speakerNumbers.map(n => ({ id: `speaker_${n}`, name: `Speaker ${n}` }));
+
+      return {
+        ...transcript,
+        speakers,
+        segments: transcript.segments.map(segment => {
+          const speaker = assignments.get(segment.id);
+          return speaker === undefined ? segment : { ...segment, speaker: `speaker_${speaker}` };
+        })
+      };
+    } catch (error) {
+      this.throwIfCancelled();
+      if (error instanceof Error) {
+        if (error.message.includes('API key')) {
+          throw new Error('Invalid or missing OpenAI API key. Please check the API server configuration.');
+        }
+      }
+      throw new Error('Failed to identify speakers: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
+  }
+
+  // Without a language the minutes are written in the language of the meeting.
+  // Transcripts too long for one request are analyzed window by window and
+  // the partial minutes merged.
+  async segmentByTopics(
+    transcript: Transcript,
+    meetingDate?: string,
+    language?: LanguageCode,
+    template?: MinutesTemplate
+  ): Promise<Minutes> {
+    this.throwIfCancelled();
 
     try {
-      this.updateProgress('analyzing', 0.1);
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
+      this.updateProgress('analyzing', 0.4);
+
+      const windows = planTranscriptWindows(transcript);
+      const parts: WindowAnalysis[] = [];
+      for (const [index, window] of windows.entries()) {
+        parts.push(await this.analyzeWindow(window, { index, count: windows.length }, meetingDate, language, template));
+      }
+
+      const merged = parts.length === 1 ? parts[0] : mergeWindowMinutes(parts);
+      if (parts.length > 1) {
+        merged.minutes.summary = await this.combineSummaries(parts, language);
+      }
+
+      const sameLanguage = !language || toLanguageCode(transcript.language) === language;
+      this.updateProgress('analyzing', 1);
+      return { ...attachSources(merged.minutes, merged.references, transcript, sameLanguage), language };
+    } catch (error) {
+      this.throwIfCancelled();
+      if (error instanceof Error) {
+        if (error.message.includes('API key')) {
+          throw new Error('Invalid or missing OpenAI API key. Please check the API server configuration.');
+        }
+      }
+      throw new Error('Failed to analyze transcription: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Writes the minutes for one window of the transcript; the analyzing
+  // progress advances from 0.4 to 0.95 over all windows
+  private async analyzeWindow(
+    transcript: Transcript,
+    window: { index: number; count: number },
+    meetingDate?: string,
+    language?: LanguageCode,
+    template?: MinutesTemplate
+  ): Promise<WindowAnalysis> {
+    this.throwIfCancelled();
+
+    const progress = (share: number) => 0.4 + 0.55 * ((window.index + share) / window.count);
+    const part = window.count > 1 ? `part ${window.index + 1} of ${window.count}` : null;
+    this.updateProgress('analyzing', progress(0), part ? { stage: `Analyzing ${part} of the meeting` } : undefined);
+
+    const sections = template?.sections ?? [];
+    const shape = buildMinutesJsonShape(sections, true);
+    const guidance = describeTemplate(template);
+    const messages: AnalysisRequest['messages'] = [
+      {
+        role: "system",
+        content: `You are a meeting minutes expert. Analyze the transcription and segment it into topics, identifying action items and key points. Start with a summary: one short paragraph on the purpose and outcome of the meeting for someone who did not attend. List the decisions that were made separately from the action items, and set each topic's sentiment to the overall tone of its discussion (positive, neutral, negative or mixed). Each line of the transcription starts with its segment number in brackets, followed by the name of the person speaking when it is known. For every key point, decision and action item, set segments to the numbers of the transcription lines it is based on; never cite a line that does not support it. For every action item, set the owner to the name of the person who committed to it or was asked to do it, or null if nobody was named. When a deadline is mentioned, set dueDate to the date in YYYY-MM-DD format if it can be worked out${meetingDate ? ` (the meeting took place on ${meetingDate})` : ''}, otherwise to the deadline as spoken; use null when there is no deadline. Set priority from the urgency expressed in the meeting (medium when unclear) and status to open unless the item was reported as already in progress or done. The meeting may be in English or Spanish; ${language ? `write the minutes in ${getLanguageName(language)} whatever language was spoken` : 'write the minutes in the language spoken in the meeting'}.${guidance ? `\n${guidance}\n` : ' '}Respond only with JSON in exactly this shape:\n${shape}`
+      },
+      {
+        role: "user",
+        content: `Please analyze this ${part ? `${part} of a longer ` : ''}meeting transcription and return a JSON with a summary, topics, key points, decisions and action items${sections.length > 0 ? ', and the requested sections' : ''}: ${formatTranscriptForPrompt(transcript)}`
+      }
+    ];
+
+    const content = await this.callProvider('analyzing', () =>
+      this.providers.analysis.complete({ purpose: 'minutes', messages }, { signal: this.abortController.signal })
+    );
+    const result = parseMinutes(content, sections);
+
+    if (result.valid) {
+      return { minutes: result.minutes, references: result.references };
+    }
+
+    // Give the model one chance to fix its own output
+    this.throwIfCancelled();
+    this.updateProgress('analyzing', progress(0.5), {
+      stage: part ? `Repairing the generated minutes for ${part}` : 'Repairing generated minutes'
+    });
+
+    const retryContent = await this.callProvider('analyzing', () => this.providers.analysis.complete({
+      purpose: 'minutes',
+      messages: [
+        ...messages,
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `Your response does not match the required format:\n- ${result.errors.join('\n- ')}\nReturn the corrected JSON only, in exactly this shape:\n${shape}`
+        }
+      ]
+    }, { signal: this.abortController.signal }));
+    const retryResult = parseMinutes(retryContent, sections);
+
+    if (!retryResult.valid) {
+      throw new Error(`The generated minutes are incomplete (${retryResult.errors.join('; ')})`);
+    }
+
+    return { minutes: retryResult.minutes, references: retryResult.references };
+  }
+
+  // Replaces the joined summaries of a windowed analysis with a single paragraph
+  private async combineSummaries(parts: WindowAnalysis[], language?: LanguageCode): Promise<string | undefined> {
+    const summaries = parts.flatMap(({ minutes }) => (minutes.summary ? [minutes.summary] : []));
+    if (summaries.length <= 1) return summaries[0];
+
+    try {
+      this.updateProgress('analyzing', 0.97, { stage: 'Summarizing the whole meeting' });
+      const content = await this.callProvider('analyzing', () => this.providers.analysis.complete({
+        purpose: 'summary',
         messages: [
           {
             role: "system",
-            content: "You are a meeting minutes expert. Analyze the transcription and segment it into topics, identifying action items and key points. Support both English and Spanish content."
+            content: `You combine the summaries of consecutive parts of one meeting into a single short paragraph on the purpose and outcome of the whole meeting, for someone who did not attend. Write it in ${language ? getLanguageName(language) : 'the language of the summaries'}. Respond only with JSON in exactly this shape:\n{ "summary": "string" }`
           },
           {
             role: "user",
-            content: `Please analyze this meeting transcription and return a JSON with topics, key points, and action items: ${transcription}`
+            content: summaries.map((summary, i) => `Part ${i + 1}: ${summary}`).join('\n\n')
           }
-        ],
-        response_format: { type: "json_object" }
-      });
+        ]
+      }, { signal: this.abortController.signal }));
+      const summary = JSON.parse(content)?.summary;
+      if (typeof summary === 'string' && summary.trim()) {
+        return summary.trim();
+      }
+    } catch (error) {
+      this.throwIfCancelled();
+      console.error('Failed to combine the meeting summaries:', error);
+    }
+    // The summaries of the parts still beat having none
+    return summaries.join('\n\n');
+  }
+
+  // Translates finished minutes for bilingual output, keeping their structure
+  // so each topic, key point and action item lines up with its original
+  async translateMinutes(minutes: Minutes, language: LanguageCode): Promise<Minutes> {
+    this.throwIfCancelled();
+
+    try {
+      this.updateProgress('analyzing', 0.9, { stage: `Translating the minutes to ${getLanguageName(language)}` });
+
+      const sections = minutes.sections ?? [];
+
+      const content = await this.callProvider('analyzing', () => this.providers.analysis.complete({
+        purpose: 'translation',
+        messages: [
+          {
+            role: "system",
+            content: `You translate meeting minutes into ${getLanguageName(language)}. Translate the summary and every title, key point, decision, section entry and action item description. Keep the same topics, key points, decisions, section entries and action items in the same order, and leave names, due dates, priority, status and sentiment values unchanged. Respond only with JSON in exactly this shape:\n${buildMinutesJsonShape(sections)}`
+          },
+          {
+            role: "user",
+            content: JSON.stringify({
+              summary: minutes.summary,
+              topics: minutes.topics,
+              decisions: minutes.decisions ?? [],
+              ...(sections.length > 0 && {
+                sections: Object.fromEntries(sections.map(section => [section.id, section.items]))
+              })
+            })
+          }
+        ]
+      }, { signal: this.abortController.signal }));
+      const result = parseMinutes(content, sections);
+
+      if (!result.valid) {
+        throw new Error(`The translated minutes are incomplete (${result.errors.join('; ')})`);
+      }
 
       this.updateProgress('analyzing', 1);
-      return JSON.parse(response.choices[0].message.content);
+      return shareSources(minutes, { ...result.minutes, language });
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          throw new Error('Invalid or missing OpenAI API key. Please check your environment variables.');
-        }
-      }
-      throw new Error('Failed to analyze transcription: ' + (error instanceof Error ? error.message : 'Unknown error'));
+      this.throwIfCancelled();
+      throw new Error('Failed to translate the minutes: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+// Preprocessing applied by convertToWav before transcription. Each profile
+// maps to a fixed ffmpeg filter chain so results are reproducible.
+
+export interface AudioProfile {
+  id: string;
+  name: string;
+  description: string;
+  // Cuts rumble and hum below this frequency
+  highpassHz?: number;
+  // afftdn noise floor in dB; higher values remove more noise
+  denoiseFloorDb?: number;
+  loudnorm?: boolean;
+  removeSilence?: boolean;
+}
+
+const STORAGE_KEY = 'audioProfile';
+
+// Pauses at least this long are cut, keeping a little of each edge
+export const SILENCE_THRESHOLD_DB = -40;
+export const SILENCE_MIN_SECONDS = 2;
+export const SILENCE_PADDING_SECONDS = 0.5;
+
+export const AUDIO_PROFILES: AudioProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    description: 'Converts the audio without any filtering.'
+  },
+  {
+    id: 'clean-speech',
+    name: 'Clean speech',
+    description: 'Light noise reduction and consistent loudness for headset or laptop recordings.',
+    highpassHz: 80,
+    denoiseFloorDb: -30,
+    loudnorm: true
+  },
+  {
+    id: 'conference-room',
+    name: 'Conference room',
+    description: 'Removes HVAC hum and room noise, normalizes loudness and cuts long silences.',
+    highpassHz: 120,
+    denoiseFloorDb: -20,
+    loudnorm: true,
+    removeSilence: true
+  },
+  {
+    id: 'loudness-only',
+    name: 'Loudness only',
+    description: 'Evens out quiet and loud speakers (EBU R128) without other changes.',
+    loudnorm: true
+  },
+  {
+    id: 'remove-silence',
+    name: 'Remove silences',
+    description: `Cuts pauses longer than ${SILENCE_MIN_SECONDS} seconds to save transcription time and cost.`,
+    removeSilence: true
+  }
+];
+
+export function getAudioProfile(id: string): AudioProfile {
+  return AUDIO_PROFILES.find(profile => profile.id === id) ?? AUDIO_PROFILES[0];
+}
+
+export function getSelectedAudioProfileId(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? AUDIO_PROFILES[0].id;
+  } catch {
+    return AUDIO_PROFILES[0].id;
+  }
+}
+
+export function setSelectedAudioProfileId(id: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.error('Failed to save audio profile:', error);
+  }
+}
+
+// Filters that change the sound; silence removal is done with cuts instead
+// so transcript times can still be mapped back to the original recording
+export function buildProfileFilters(profile: AudioProfile): string[] {
+  const filters: string[] = [];
+  if (profile.highpassHz) {
+    filters.push(`highpass=f=${profile.highpassHz}`);
+  }
+  if (profile.denoiseFloorDb !== undefined) {
+    filters.push(`afftdn=nf=${profile.denoiseFloorDb}`);
+  }
+  if (profile.loudnorm) {
+    // -16 LUFS is louder than the broadcast target but suits speech recognition
+    filters.push('loudnorm=I=-16:TP=-1.5:LRA=11');
+  }
+  return filters;
+}
@@ -0,0 +1,28 @@
+// Only the AI steps need the network; everything else runs in the browser.
+// Those steps wait here while the browser is offline instead of failing.
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+export function waitForOnline(signal?: AbortSignal): Promise<void> {
+  if (isOnline()) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('online', handleOnline);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleOnline = () => {
+      cleanup();
+      resolve();
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(new Error('Operation cancelled'));
+    };
+
+    window.addEventListener('online', handleOnline);
+    signal?.addEventListener('abort', handleAbort);
+  });
+}
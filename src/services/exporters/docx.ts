@@ -0,0 +1,82 @@
+import {
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { ExportDocument } from './exportDocument';
+
+const ACCENT_COLOR = '3730A3';
+const MUTED_COLOR = '6B7280';
+const HEADER_FILL = 'EEF2FF';
+
+function renderTable(headers: string[], rows: string[][]): Table {
+  const cell = (text: string, header = false) =>
+    new TableCell({
+      children: [new Paragraph({ children: [new TextRun({ text, bold: header, size: 20 })] })],
+      shading: header ? { type: ShadingType.CLEAR, fill: HEADER_FILL, color: 'auto' } : undefined
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: headers.map(header => cell(header, true)) }),
+      ...rows.map(row => new TableRow({ children: row.map(value => cell(value)) }))
+    ]
+  });
+}
+
+export async function renderDocx(doc: ExportDocument): Promise<Blob> {
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(doc.title)] }),
+    ...doc.meta.map(({ label, value }) => new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)]
+    })),
+    new Paragraph({})
+  ];
+
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'heading':
+        children.push(new Paragraph({
+          heading: block.level === 2 ? HeadingLevel.HEADING_1 : HeadingLevel.HEADING_2,
+          children: [new TextRun({ text: block.text, color: block.level === 2 ? ACCENT_COLOR : undefined })]
+        }));
+        break;
+      case 'paragraph':
+        children.push(new Paragraph({ text: block.text }));
+        break;
+      case 'list':
+        block.items.forEach(item => children.push(new Paragraph({ text: item, bullet: { level: 0 } })));
+        break;
+      case 'checklist':
+        block.items.forEach(item => {
+          children.push(new Paragraph({
+            children: [new TextRun({ text: `${item.done ? '☑' : '☐'} ${item.text}`, strike: item.done })]
+          }));
+          children.push(new Paragraph({
+            indent: { left: 360 },
+            children: [new TextRun({ text: item.details, italics: true, color: MUTED_COLOR, size: 18 })]
+          }));
+        });
+        break;
+      case 'table':
+        children.push(renderTable(block.headers, block.rows));
+        break;
+    }
+  }
+
+  const document = new Document({
+    creator: 'Meeting Minutes Generator',
+    title: doc.title,
+    sections: [{ children }]
+  });
+
+  return Packer.toBlob(document);
+}
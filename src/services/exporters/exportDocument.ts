@@ -0,0 +1,171 @@
+import { ClientData } from '../../types/meeting';
+import { ActionItem, Minutes, MinutesTopic, TopicSentiment } from '../../types/minutes';
+import { getLanguageName } from '../../utils/languages';
+
+// Every export format renders this same outline, so Markdown, HTML and DOCX
+// files share their structure and wording.
+
+export type ExportBlock =
+  | { type: 'heading'; level: 2 | 3; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'checklist'; items: Array<{ text: string; details: string; done: boolean }> }
+  | { type: 'table'; headers: string[]; rows: string[][] };
+
+export interface ExportDocument {
+  title: string;
+  meta: Array<{ label: string; value: string }>;
+  blocks: ExportBlock[];
+}
+
+const STATUS_LABELS: Record<ActionItem['status'], string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done'
+};
+
+const SENTIMENT_LABELS: Record<TopicSentiment, string> = {
+  positive: 'Positive',
+  neutral: 'Neutral',
+  negative: 'Negative',
+  mixed: 'Mixed'
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export function formatMeetingDate(date: string): string {
+  // Dates from the form are plain YYYY-MM-DD; parse them as local dates
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00:00`) : new Date(date);
+  return isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+export function describeActionItem(item: ActionItem): string {
+  return [
+    `Owner: ${item.owner ?? 'Unassigned'}`,
+    item.dueDate ? `Due: ${item.dueDate}` : null,
+    `Priority: ${capitalize(item.priority)}`,
+    `Status: ${STATUS_LABELS[item.status]}`
+  ].filter(Boolean).join(' · ');
+}
+
+// Bilingual minutes put their content in two columns, original and translation
+const pair = (left: string[], right: string[]) =>
+  Array.from({ length: Math.max(left.length, right.length) }, (_, i) => [left[i] ?? '', right[i] ?? '']);
+
+function pushBilingualTopic(blocks: ExportBlock[], topic: MinutesTopic, translated: MinutesTopic, headers: string[]) {
+  blocks.push({ type: 'heading', level: 2, text: `${topic.title} / ${translated.title}` });
+  if (topic.sentiment) {
+    blocks.push({ type: 'paragraph', text: `Sentiment: ${SENTIMENT_LABELS[topic.sentiment]}` });
+  }
+
+  if (topic.keyPoints.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: 'Key Points' });
+    blocks.push({ type: 'table', headers, rows: pair(topic.keyPoints, translated.keyPoints) });
+  }
+
+  if (topic.actionItems.length > 0) {
+    blocks.push({ type: 'heading', level: 3, text: 'Action Items' });
+    blocks.push({
+      type: 'table',
+      headers,
+      rows: pair(
+        topic.actionItems.map(item => `${item.description} (${describeActionItem(item)})`),
+        translated.actionItems.map(item => item.description)
+      )
+    });
+  }
+}
+
+export function buildExportDocument(minutes: Minutes, clientData: ClientData): ExportDocument {
+  const blocks: ExportBlock[] = [];
+  const translation = minutes.translation;
+  const languageHeaders = translation
+    ? [minutes.language ? getLanguageName(minutes.language) : 'Original', getLanguageName(translation.language)]
+    : [];
+
+  if (minutes.summary) {
+    blocks.push({ type: 'heading', level: 2, text: 'Summary' });
+    blocks.push(translation?.summary
+      ? { type: 'table', headers: languageHeaders, rows: [[minutes.summary, translation.summary]] }
+      : { type: 'paragraph', text: minutes.summary });
+  }
+
+  const decisions = minutes.decisions ?? [];
+  if (decisions.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Decisions' });
+    blocks.push(translation
+      ? { type: 'table', headers: languageHeaders, rows: pair(decisions, translation.decisions ?? []) }
+      : { type: 'list', items: decisions });
+  }
+
+  // Template sections follow; empty ones are left out of the document
+  (minutes.sections ?? []).forEach((section, index) => {
+    if (section.items.length === 0) return;
+    blocks.push({ type: 'heading', level: 2, text: section.title });
+    const translated = translation?.sections?.[index];
+    blocks.push(translated
+      ? { type: 'table', headers: languageHeaders, rows: pair(section.items, translated.items) }
+      : { type: 'list', items: section.items });
+  });
+
+  minutes.topics.forEach((topic, index) => {
+    const translated = translation?.topics[index];
+    if (translated) {
+      pushBilingualTopic(blocks, topic, translated, languageHeaders);
+      return;
+    }
+
+    blocks.push({ type: 'heading', level: 2, text: topic.title });
+    if (topic.sentiment) {
+      blocks.push({ type: 'paragraph', text: `Sentiment: ${SENTIMENT_LABELS[topic.sentiment]}` });
+    }
+
+    if (topic.keyPoints.length > 0) {
+      blocks.push({ type: 'heading', level: 3, text: 'Key Points' });
+      blocks.push({ type: 'list', items: topic.keyPoints });
+    }
+
+    if (topic.actionItems.length > 0) {
+      blocks.push({ type: 'heading', level: 3, text: 'Action Items' });
+      blocks.push({
+        type: 'checklist',
+        items: topic.actionItems.map(item => ({
+          text: item.description,
+          details: describeActionItem(item),
+          done: item.status === 'done'
+        }))
+      });
+    }
+  });
+
+  const allActionItems = minutes.topics.flatMap(topic =>
+    topic.actionItems.map(item => ({ topic: topic.title, item }))
+  );
+  if (allActionItems.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Action Item Summary' });
+    blocks.push({
+      type: 'table',
+      headers: ['Action', 'Owner', 'Due', 'Priority', 'Status', 'Topic'],
+      rows: allActionItems.map(({ topic, item }) => [
+        item.description,
+        item.owner ?? 'Unassigned',
+        item.dueDate ?? '',
+        capitalize(item.priority),
+        STATUS_LABELS[item.status],
+        topic
+      ])
+    });
+  }
+
+  return {
+    title: clientData.meetingTitle,
+    meta: [
+      { label: 'Client', value: clientData.clientName },
+      { label: 'Date', value: formatMeetingDate(clientData.date) },
+      ...(translation ? [{ label: 'Language', value: languageHeaders.join(' / ') }] : [])
+    ],
+    blocks
+  };
+}
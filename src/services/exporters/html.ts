@@ -0,0 +1,65 @@
+import { ExportDocument } from './exportDocument';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Styles are embedded so the file renders on its own, e.g. as an email attachment
+const STYLES = `
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #1f2937; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 28px; margin-bottom: 8px; }
+  h2 { font-size: 20px; color: #3730a3; border-left: 4px solid #6366f1; padding-left: 12px; margin-top: 32px; }
+  h3 { font-size: 16px; color: #374151; margin-bottom: 8px; }
+  .meta { color: #4b5563; border-bottom: 1px solid #e5e7eb; padding-bottom: 16px; }
+  .meta p { margin: 2px 0; }
+  ul.checklist { list-style: none; padding-left: 0; }
+  ul.checklist li { margin-bottom: 8px; }
+  .details { display: block; color: #6b7280; font-size: 13px; margin-left: 24px; }
+  .done { text-decoration: line-through; color: #9ca3af; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #eef2ff; }
+`;
+
+export function renderHtml(doc: ExportDocument): string {
+  const body = doc.blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p>${escapeHtml(block.text)}</p>`;
+      case 'list':
+        return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+      case 'checklist':
+        return `<ul class="checklist">${block.items.map(item =>
+          `<li><span class="${item.done ? 'done' : ''}">${item.done ? '&#9745;' : '&#9744;'} ${escapeHtml(item.text)}</span>` +
+          `<span class="details">${escapeHtml(item.details)}</span></li>`
+        ).join('')}</ul>`;
+      case 'table':
+        return `<table><thead><tr>${block.headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+          `<tbody>${block.rows.map(row =>
+            `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`
+          ).join('')}</tbody></table>`;
+    }
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(doc.title)}</h1>
+<div class="meta">${doc.meta.map(({ label, value }) =>
+    `<p><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</p>`
+  ).join('')}</div>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,100 @@
+import { ClientData } from '../../types/meeting';
+import { Minutes } from '../../types/minutes';
+import { buildExportDocument } from './exportDocument';
+import { renderHtml } from './html';
+import { renderMarkdown } from './markdown';
+import { PdfTemplate, getPdfTemplate, getSelectedPdfTemplateId } from './pdfTemplates';
+
+export type ExportFormat = 'pdf' | 'markdown' | 'docx' | 'html' | 'json';
+
+export interface ExportOptions {
+  // Defaults to the template last chosen in the PDF options
+  pdfTemplate?: PdfTemplate;
+}
+
+export const EXPORT_FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'docx', label: 'Word (DOCX)' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' }
+];
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  pdf: 'pdf',
+  markdown: 'md',
+  docx: 'docx',
+  html: 'html',
+  json: 'json'
+};
+
+export function getExportFileName(clientData: ClientData, extension: string): string {
+  const base = [clientData.date, clientData.clientName, clientData.meetingTitle]
+    .filter(Boolean)
+    .join(' ')
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${base || 'meeting-minutes'}.${extension}`;
+}
+
+export async function exportMinutes(
+  format: ExportFormat,
+  minutes: Minutes,
+  clientData: ClientData,
+  options: ExportOptions = {}
+): Promise<Blob> {
+  switch (format) {
+    case 'pdf': {
+      const { renderPdf } = await import('./pdf');
+      const template = options.pdfTemplate ?? getPdfTemplate(getSelectedPdfTemplateId());
+      return renderPdf(buildExportDocument(minutes, clientData), template);
+    }
+    case 'json':
+      // Raw data for trackers and other tools, not the rendered layout
+      return new Blob(
+        [JSON.stringify({ meeting: clientData, minutes }, null, 2)],
+        { type: 'application/json' }
+      );
+    case 'markdown':
+      return new Blob([renderMarkdown(buildExportDocument(minutes, clientData))], { type: 'text/markdown' });
+    case 'html':
+      return new Blob([renderHtml(buildExportDocument(minutes, clientData))], { type: 'text/html' });
+    case 'docx': {
+      // The DOCX and PDF libraries are large, so they are only loaded when needed
+      const { renderDocx } = await import('./docx');
+      return renderDocx(buildExportDocument(minutes, clientData));
+    }
+  }
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export async function downloadMinutes(
+  format: ExportFormat,
+  minutes: Minutes,
+  clientData: ClientData,
+  options: ExportOptions = {}
+) {
+  const blob = await exportMinutes(format, minutes, clientData, options);
+  downloadBlob(blob, getExportFileName(clientData, EXTENSIONS[format]));
+}
+
+export {
+  PDF_TEMPLATES,
+  getPdfTemplate,
+  getSelectedPdfTemplateId,
+  savePdfTemplateOverrides,
+  setSelectedPdfTemplateId
+} from './pdfTemplates';
+export type { PdfTemplate, PdfTemplateOverrides } from './pdfTemplates';
@@ -0,0 +1,39 @@
+import { ExportDocument } from './exportDocument';
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function renderMarkdown(doc: ExportDocument): string {
+  const lines: string[] = [`# ${doc.title}`, ''];
+  doc.meta.forEach(({ label, value }) => lines.push(`**${label}:** ${value}  `));
+  lines.push('');
+
+  for (const block of doc.blocks) {
+    switch (block.type) {
+      case 'heading':
+        lines.push(`${'#'.repeat(block.level)} ${block.text}`, '');
+        break;
+      case 'paragraph':
+        lines.push(block.text, '');
+        break;
+      case 'list':
+        block.items.forEach(item => lines.push(`- ${item}`));
+        lines.push('');
+        break;
+      case 'checklist':
+        block.items.forEach(item => {
+          lines.push(`- [${item.done ? 'x' : ' '}] ${item.text}`);
+          lines.push(`  _${item.details}_`);
+        });
+        lines.push('');
+        break;
+      case 'table':
+        lines.push(`| ${block.headers.map(escapeCell).join(' | ')} |`);
+        lines.push(`| ${block.headers.map(() => '---').join(' | ')} |`);
+        block.rows.forEach(row => lines.push(`| ${row.map(escapeCell).join(' | ')} |`));
+        lines.push('');
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
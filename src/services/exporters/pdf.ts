@@ -0,0 +1,314 @@
+import { jsPDF } from 'jspdf';
+import { ExportBlock, ExportDocument } from './exportDocument';
+import { PdfTemplate } from './pdfTemplates';
+
+const MARGIN = 56;
+const FOOTER_HEIGHT = 32;
+const COVER_HEIGHT = 150;
+const TOC_LINE_HEIGHT = 20;
+const BODY_SIZE = 11;
+const LINE_FACTOR = 1.35;
+
+// Relative widths of the action-item summary columns; other tables split evenly
+const SUMMARY_COLUMN_WEIGHTS = [0.32, 0.14, 0.12, 0.1, 0.12, 0.2];
+
+type Rgb = [number, number, number];
+
+function hexToRgb(hex: string): Rgb {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const parsed = parseInt(full, 16);
+  return isNaN(parsed) ? [0, 0, 0] : [(parsed >> 16) & 255, (parsed >> 8) & 255, parsed & 255];
+}
+
+interface TocEntry {
+  title: string;
+  page: number;
+}
+
+class PdfLayout {
+  readonly doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  readonly width = this.doc.internal.pageSize.getWidth();
+  readonly height = this.doc.internal.pageSize.getHeight();
+  readonly contentWidth = this.width - MARGIN * 2;
+  readonly bottom = this.height - MARGIN - FOOTER_HEIGHT;
+  y = MARGIN;
+
+  constructor(private template: PdfTemplate) {}
+
+  color(hex: string, target: 'text' | 'fill' | 'draw' = 'text') {
+    const [r, g, b] = hexToRgb(hex);
+    if (target === 'text') this.doc.setTextColor(r, g, b);
+    if (target === 'fill') this.doc.setFillColor(r, g, b);
+    if (target === 'draw') this.doc.setDrawColor(r, g, b);
+  }
+
+  font(size: number, style: 'normal' | 'bold' | 'italic' = 'normal', hex = this.template.textColor) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.color(hex);
+  }
+
+  lineHeight(size: number) {
+    return size * LINE_FACTOR;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.newPage();
+    }
+  }
+
+  wrap(text: string, width: number): string[] {
+    return this.doc.splitTextToSize(text, width) as string[];
+  }
+
+  // Writes wrapped text at the current position, breaking pages between lines
+  paragraph(text: string, x: number, width: number, size: number) {
+    const lineHeight = this.lineHeight(size);
+    for (const line of this.wrap(text, width)) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, x, this.y + size);
+      this.y += lineHeight;
+    }
+  }
+}
+
+function drawCover(layout: PdfLayout, doc: ExportDocument, template: PdfTemplate) {
+  const { doc: pdf, width } = layout;
+
+  layout.color(template.primaryColor, 'fill');
+  pdf.rect(0, 0, width, COVER_HEIGHT, 'F');
+
+  let titleWidth = layout.contentWidth;
+  if (template.logoDataUrl) {
+    try {
+      const image = pdf.getImageProperties(template.logoDataUrl);
+      const logoHeight = 48;
+      const logoWidth = Math.min(140, (image.width / image.height) * logoHeight);
+      pdf.addImage(template.logoDataUrl, width - MARGIN - logoWidth, 36, logoWidth, logoHeight);
+      titleWidth -= logoWidth + 16;
+    } catch (error) {
+      console.error('Failed to add logo to PDF:', error);
+    }
+  }
+
+  layout.font(24, 'bold', '#FFFFFF');
+  const titleLines = layout.wrap(doc.title, titleWidth).slice(0, 2);
+  titleLines.forEach((line, i) => pdf.text(line, MARGIN, 70 + i * 30));
+
+  layout.font(10, 'normal', '#FFFFFF');
+  pdf.text('Meeting Minutes', MARGIN, 44);
+
+  layout.y = COVER_HEIGHT + 28;
+  doc.meta.forEach(({ label, value }) => {
+    layout.font(BODY_SIZE, 'bold');
+    pdf.text(`${label}:`, MARGIN, layout.y);
+    layout.font(BODY_SIZE);
+    pdf.text(value, MARGIN + 60, layout.y);
+    layout.y += layout.lineHeight(BODY_SIZE) + 2;
+  });
+  layout.y += 24;
+}
+
+function tocCapacity(layout: PdfLayout, startY: number) {
+  return Math.max(1, Math.floor((layout.bottom - startY) / TOC_LINE_HEIGHT));
+}
+
+function drawToc(layout: PdfLayout, entries: TocEntry[], startY: number, template: PdfTemplate) {
+  const { doc: pdf } = layout;
+  let page = 1;
+  let y = startY;
+
+  pdf.setPage(page);
+  layout.font(16, 'bold', template.primaryColor);
+  pdf.text('Contents', MARGIN, y);
+  y += TOC_LINE_HEIGHT + 6;
+
+  for (const entry of entries) {
+    if (y > layout.bottom) {
+      page += 1;
+      pdf.setPage(page);
+      y = MARGIN + TOC_LINE_HEIGHT;
+    }
+
+    layout.font(BODY_SIZE);
+    const pageLabel = String(entry.page);
+    const labelWidth = pdf.getTextWidth(pageLabel);
+    const title = layout.wrap(entry.title, layout.contentWidth - labelWidth - 40)[0];
+    pdf.textWithLink(title, MARGIN, y, { pageNumber: entry.page });
+    pdf.text(pageLabel, layout.width - MARGIN - labelWidth, y);
+
+    // Dotted leader between the title and its page number
+    layout.color(template.mutedColor, 'draw');
+    pdf.setLineDashPattern([1, 3], 0);
+    pdf.line(MARGIN + pdf.getTextWidth(title) + 6, y - 3, layout.width - MARGIN - labelWidth - 6, y - 3);
+    pdf.setLineDashPattern([], 0);
+
+    y += TOC_LINE_HEIGHT;
+  }
+}
+
+function drawTable(layout: PdfLayout, headers: string[], rows: string[][], template: PdfTemplate) {
+  const { doc: pdf } = layout;
+  const size = 9;
+  const padding = 5;
+  const lineHeight = layout.lineHeight(size);
+  const weights = headers.length === SUMMARY_COLUMN_WEIGHTS.length
+    ? SUMMARY_COLUMN_WEIGHTS
+    : headers.map(() => 1 / headers.length);
+  const widths = weights.map(weight => weight * layout.contentWidth);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    layout.font(size, header ? 'bold' : 'normal');
+    const wrapped = cells.map((cell, i) => layout.wrap(cell, widths[i] - padding * 2));
+    const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+
+    if (layout.y + height > layout.bottom) {
+      layout.newPage();
+      if (!header) drawRow(headers, true);
+      layout.font(size, header ? 'bold' : 'normal');
+    }
+
+    let x = MARGIN;
+    layout.color(template.mutedColor, 'draw');
+    pdf.setLineWidth(0.5);
+    wrapped.forEach((lines, i) => {
+      if (header) {
+        layout.color(template.headerFill, 'fill');
+        pdf.rect(x, layout.y, widths[i], height, 'FD');
+      } else {
+        pdf.rect(x, layout.y, widths[i], height);
+      }
+      lines.forEach((line, j) => pdf.text(line, x + padding, layout.y + padding + size + j * lineHeight));
+      x += widths[i];
+    });
+    layout.y += height;
+  };
+
+  drawRow(headers, true);
+  rows.forEach(row => drawRow(row, false));
+  layout.y += 12;
+}
+
+function drawBlock(layout: PdfLayout, block: ExportBlock, template: PdfTemplate, toc: TocEntry[]) {
+  const { doc: pdf } = layout;
+
+  switch (block.type) {
+    case 'heading':
+      if (block.level === 2) {
+        layout.ensureSpace(60);
+        if (layout.y > MARGIN) layout.y += 12;
+        toc.push({ title: block.text, page: pdf.getCurrentPageInfo().pageNumber });
+        layout.font(16, 'bold', template.primaryColor);
+        layout.paragraph(block.text, MARGIN, layout.contentWidth, 16);
+        layout.color(template.primaryColor, 'draw');
+        pdf.setLineWidth(1.5);
+        pdf.line(MARGIN, layout.y + 2, MARGIN + 48, layout.y + 2);
+        layout.y += 12;
+      } else {
+        layout.ensureSpace(40);
+        layout.y += 4;
+        layout.font(12, 'bold');
+        layout.paragraph(block.text, MARGIN, layout.contentWidth, 12);
+        layout.y += 4;
+      }
+      break;
+
+    case 'paragraph':
+      layout.font(BODY_SIZE);
+      layout.paragraph(block.text, MARGIN, layout.contentWidth, BODY_SIZE);
+      layout.y += 8;
+      break;
+
+    case 'list':
+      block.items.forEach(item => {
+        layout.ensureSpace(layout.lineHeight(BODY_SIZE));
+        layout.color(template.primaryColor, 'fill');
+        pdf.circle(MARGIN + 4, layout.y + BODY_SIZE / 2 + 1, 1.8, 'F');
+        layout.font(BODY_SIZE);
+        layout.paragraph(item, MARGIN + 14, layout.contentWidth - 14, BODY_SIZE);
+        layout.y += 3;
+      });
+      layout.y += 6;
+      break;
+
+    case 'checklist':
+      block.items.forEach(item => {
+        layout.ensureSpace(layout.lineHeight(BODY_SIZE) * 2);
+        const boxY = layout.y + 2;
+        layout.color(template.primaryColor, 'draw');
+        pdf.setLineWidth(0.8);
+        pdf.rect(MARGIN, boxY, 9, 9);
+        if (item.done) {
+          pdf.line(MARGIN + 2, boxY + 4.5, MARGIN + 4, boxY + 7);
+          pdf.line(MARGIN + 4, boxY + 7, MARGIN + 7.5, boxY + 2);
+        }
+        layout.font(BODY_SIZE, 'normal', item.done ? template.mutedColor : template.textColor);
+        layout.paragraph(item.text, MARGIN + 16, layout.contentWidth - 16, BODY_SIZE);
+        layout.font(9, 'italic', template.mutedColor);
+        layout.paragraph(item.details, MARGIN + 16, layout.contentWidth - 16, 9);
+        layout.y += 5;
+      });
+      layout.y += 6;
+      break;
+
+    case 'table':
+      layout.ensureSpace(60);
+      drawTable(layout, block.headers, block.rows, template);
+      break;
+  }
+}
+
+function drawFooters(layout: PdfLayout, doc: ExportDocument, template: PdfTemplate) {
+  const { doc: pdf } = layout;
+  const total = pdf.getNumberOfPages();
+  const client = doc.meta.find(entry => entry.label === 'Client')?.value;
+  const label = [client, doc.title].filter(Boolean).join(' | ');
+
+  for (let page = 1; page <= total; page++) {
+    pdf.setPage(page);
+    const y = layout.height - MARGIN / 2 - 4;
+    layout.color(template.headerFill, 'draw');
+    pdf.setLineWidth(0.8);
+    pdf.line(MARGIN, y - 14, layout.width - MARGIN, y - 14);
+
+    layout.font(8, 'normal', template.mutedColor);
+    pdf.text(layout.wrap(label, layout.contentWidth - 80)[0] ?? '', MARGIN, y);
+    const pageLabel = `Page ${page} of ${total}`;
+    pdf.text(pageLabel, layout.width - MARGIN - pdf.getTextWidth(pageLabel), y);
+  }
+}
+
+export function renderPdf(doc: ExportDocument, template: PdfTemplate): Blob {
+  const layout = new PdfLayout(template);
+  const { doc: pdf } = layout;
+
+  drawCover(layout, doc, template);
+
+  // The table of contents needs page numbers that are only known after the
+  // content is laid out, so its pages are reserved up front and filled in last.
+  const tocStartY = layout.y;
+  const headingCount = doc.blocks.filter(block => block.type === 'heading' && block.level === 2).length;
+  const firstPageCapacity = tocCapacity(layout, tocStartY + TOC_LINE_HEIGHT + 6);
+  const extraTocPages = Math.ceil(
+    Math.max(0, headingCount - firstPageCapacity) / tocCapacity(layout, MARGIN + TOC_LINE_HEIGHT)
+  );
+  for (let i = 0; i < extraTocPages; i++) {
+    pdf.addPage();
+  }
+
+  const toc: TocEntry[] = [];
+  layout.newPage();
+  doc.blocks.forEach(block => drawBlock(layout, block, template, toc));
+
+  drawToc(layout, toc, tocStartY, template);
+  drawFooters(layout, doc, template);
+
+  return pdf.output('blob');
+}
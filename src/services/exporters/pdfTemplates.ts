@@ -0,0 +1,98 @@
+export interface PdfTemplate {
+  id: string;
+  name: string;
+  // Hex colors, e.g. "#4F46E5"
+  primaryColor: string;
+  textColor: string;
+  mutedColor: string;
+  headerFill: string;
+  logoDataUrl?: string;
+}
+
+export interface PdfTemplateOverrides {
+  primaryColor?: string;
+  logoDataUrl?: string;
+}
+
+interface PdfTemplateSettings {
+  selectedId: string;
+  overrides: Record<string, PdfTemplateOverrides>;
+}
+
+const STORAGE_KEY = 'pdfTemplateSettings';
+
+export const PDF_TEMPLATES: PdfTemplate[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    primaryColor: '#4F46E5',
+    textColor: '#1F2937',
+    mutedColor: '#6B7280',
+    headerFill: '#EEF2FF'
+  },
+  {
+    id: 'corporate',
+    name: 'Corporate',
+    primaryColor: '#0F3D5E',
+    textColor: '#111827',
+    mutedColor: '#4B5563',
+    headerFill: '#E5EEF5'
+  },
+  {
+    id: 'minimal',
+    name: 'Minimal',
+    primaryColor: '#111827',
+    textColor: '#111827',
+    mutedColor: '#6B7280',
+    headerFill: '#F3F4F6'
+  }
+];
+
+// The settings in use this session. Kept in memory because a large logo can
+// exceed the storage quota, and the export should still use it.
+let sessionSettings: PdfTemplateSettings | null = null;
+
+function loadSettings(): PdfTemplateSettings {
+  if (sessionSettings) return sessionSettings;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      sessionSettings = { selectedId: parsed.selectedId ?? PDF_TEMPLATES[0].id, overrides: parsed.overrides ?? {} };
+      return sessionSettings;
+    }
+  } catch (error) {
+    console.error('Failed to load PDF template settings:', error);
+  }
+  sessionSettings = { selectedId: PDF_TEMPLATES[0].id, overrides: {} };
+  return sessionSettings;
+}
+
+function saveSettings(settings: PdfTemplateSettings) {
+  sessionSettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Large logos can exceed the storage quota; the in-memory copy still
+    // exports them, but they are gone after a reload
+    console.error('Failed to save PDF template settings:', error);
+  }
+}
+
+export function getSelectedPdfTemplateId(): string {
+  return loadSettings().selectedId;
+}
+
+export function setSelectedPdfTemplateId(id: string) {
+  saveSettings({ ...loadSettings(), selectedId: id });
+}
+
+export function getPdfTemplate(id: string): PdfTemplate {
+  const base = PDF_TEMPLATES.find(template => template.id === id) ?? PDF_TEMPLATES[0];
+  return { ...base, ...loadSettings().overrides[base.id] };
+}
+
+export function savePdfTemplateOverrides(id: string, overrides: PdfTemplateOverrides) {
+  const settings = loadSettings();
+  saveSettings({ ...settings, overrides: { ...settings.overrides, [id]: overrides } });
+}
@@ -0,0 +1,165 @@
+import { AudioChunk, ChunkTranscript, WAV_SAMPLE_RATE, encodeWav, mergeChunkTranscripts } from './audioChunker';
+import { AIProviders, createProviders } from './providers';
+import { LanguageCode } from '../types/language';
+import { Transcript } from '../types/transcript';
+
+// Transcribes a recording while it is still running: incoming samples are
+// cut into short overlapping windows that are sent off one at a time, and
+// the results are stitched together like the chunks of an uploaded file.
+
+const WINDOW_SECONDS = 30;
+const WINDOW_OVERLAP_SECONDS = 2;
+// Shorter tails are usually silence before the stop button was pressed
+const MIN_FINAL_WINDOW_SECONDS = 1;
+
+interface PendingWindow {
+  chunk: AudioChunk;
+  audio: Blob;
+}
+
+export class LiveTranscriber {
+  private buffers: Float32Array[] = [];
+  private bufferedSamples = 0;
+  private carriedSamples = 0;
+  private bufferStart = 0;
+  private resamplePosition = 0;
+  private windowCount = 0;
+  private parts: ChunkTranscript[] = [];
+  private failed: PendingWindow[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private cancelled = false;
+  private abortController = new AbortController();
+  private onUpdate: (transcript: Transcript) => void;
+  private providers: AIProviders;
+  // Unset lets each window's language be detected
+  private language?: LanguageCode;
+
+  constructor(
+    onUpdate: (transcript: Transcript) => void,
+    language?: LanguageCode,
+    providers: AIProviders = createProviders()
+  ) {
+    this.onUpdate = onUpdate;
+    this.language = language;
+    this.providers = providers;
+  }
+
+  // Accepts raw input at any sample rate and resamples it to 16 kHz
+  appendSamples(input: Float32Array, sampleRate: number) {
+    if (this.cancelled) return;
+
+    const samples = this.resample(input, sampleRate);
+    this.buffers.push(samples);
+    this.bufferedSamples += samples.length;
+
+    if (this.bufferedSamples >= WINDOW_SECONDS * WAV_SAMPLE_RATE) {
+      this.flushWindow();
+    }
+  }
+
+  // Transcribes what is left and returns the complete transcript
+  async finish(): Promise<Transcript> {
+    if (this.bufferedSamples - this.carriedSamples >= MIN_FINAL_WINDOW_SECONDS * WAV_SAMPLE_RATE) {
+      this.flushWindow(false);
+    }
+    await this.queue;
+
+    // Windows that failed while recording get one more try before giving up
+    const retries = this.failed;
+    this.failed = [];
+    for (const window of retries) {
+      await this.transcribeWindow(window);
+    }
+    if (this.failed.length > 0) {
+      throw new Error(`Failed to transcribe ${this.failed.length} part(s) of the recording`);
+    }
+
+    return this.getTranscript();
+  }
+
+  cancel() {
+    this.cancelled = true;
+    this.abortController.abort();
+    this.buffers = [];
+    this.bufferedSamples = 0;
+  }
+
+  getTranscript(): Transcript {
+    return mergeChunkTranscripts([...this.parts].sort((a, b) => a.chunk.index - b.chunk.index));
+  }
+
+  private resample(input: Float32Array, sampleRate: number): Float32Array {
+    if (sampleRate === WAV_SAMPLE_RATE) return input;
+
+    // Both directions carry the fractional position over to the next buffer
+    const ratio = sampleRate / WAV_SAMPLE_RATE;
+    const output: number[] = [];
+    let position = this.resamplePosition;
+    if (ratio < 1) {
+      // Upsample by interpolating between neighbouring input samples; the
+      // last one of a buffer is held, as the next buffer hasn't arrived yet
+      while (position < input.length) {
+        const i = Math.floor(position);
+        const next = i + 1 < input.length ? input[i + 1] : input[i];
+        output.push(input[i] + (next - input[i]) * (position - i));
+        position += ratio;
+      }
+    } else {
+      // Downsample by averaging the input samples that fall into each output sample
+      while (position + ratio <= input.length) {
+        const from = Math.max(0, Math.floor(position));
+        const to = Math.floor(position + ratio);
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += input[i];
+        output.push(sum / Math.max(1, to - from));
+        position += ratio;
+      }
+    }
+    this.resamplePosition = position - input.length;
+    return Float32Array.from(output);
+  }
+
+  private flushWindow(keepOverlap = true) {
+    const samples = new Float32Array(this.bufferedSamples);
+    let offset = 0;
+    for (const buffer of this.buffers) {
+      samples.set(buffer, offset);
+      offset += buffer.length;
+    }
+
+    const start = this.bufferStart;
+    const end = start + samples.length / WAV_SAMPLE_RATE;
+    const window: PendingWindow = {
+      chunk: { index: this.windowCount++, start, end },
+      audio: encodeWav(samples)
+    };
+
+    // The next window repeats the end of this one so words cut at the
+    // boundary are heard in full by one of them
+    const overlap = keepOverlap ? samples.slice(-WINDOW_OVERLAP_SECONDS * WAV_SAMPLE_RATE) : new Float32Array(0);
+    this.buffers = overlap.length > 0 ? [overlap] : [];
+    this.bufferedSamples = overlap.length;
+    this.carriedSamples = overlap.length;
+    this.bufferStart = end - overlap.length / WAV_SAMPLE_RATE;
+
+    this.queue = this.queue.then(() => this.transcribeWindow(window));
+  }
+
+  private async transcribeWindow(window: PendingWindow) {
+    if (this.cancelled) return;
+
+    try {
+      const transcript = await this.providers.transcription.transcribe(
+        { audio: window.audio, language: this.language },
+        { signal: this.abortController.signal }
+      );
+      if (this.cancelled) return;
+      this.parts.push({ chunk: window.chunk, transcript });
+      this.onUpdate(this.getTranscript());
+    } catch (error) {
+      if (this.cancelled) return;
+      console.error(`Live transcription of window ${window.chunk.index + 1} failed:`, error);
+      this.failed.push(window);
+    }
+  }
+}
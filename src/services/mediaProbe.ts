@@ -0,0 +1,108 @@
+// Reads the stream list ffmpeg prints for `-i <file>` so audio can be pulled
+// out of video containers, and turns ffmpeg's failure output into messages
+// that say what is actually wrong with the file.
+
+// .webm can hold audio only or video; it is listed once and the probe finds
+// the audio stream either way
+export const SUPPORTED_AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.ogg', '.flac', '.aac', '.opus', '.webm'];
+export const SUPPORTED_VIDEO_EXTENSIONS = ['.mp4', '.mov', '.mkv'];
+
+export class MediaFormatError extends Error {}
+
+export interface MediaStreamInfo {
+  // Stream index within the input, as used by `-map 0:<index>`
+  index: number;
+  type: string;
+  codec: string;
+  language?: string;
+  sampleRate?: number;
+  channels?: string;
+  bitrate?: number;
+  isDefault: boolean;
+}
+
+export interface MediaProbe {
+  format?: string;
+  duration?: number;
+  streams: MediaStreamInfo[];
+}
+
+const STREAM_PATTERN = /Stream #0:(\d+)(?:\[[^\]]*\])?(?:\((\w+)\))?: (\w+): ([^\s,]+)(.*)/;
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+export function parseProbeLog(lines: string[]): MediaProbe {
+  const probe: MediaProbe = { streams: [] };
+
+  for (const line of lines) {
+    const inputMatch = line.match(/Input #0, (.+?), from '/);
+    if (inputMatch) {
+      probe.format = inputMatch[1];
+      continue;
+    }
+
+    const durationMatch = line.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+    if (durationMatch) {
+      const [, hours, minutes, seconds] = durationMatch;
+      probe.duration = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+      continue;
+    }
+
+    const streamMatch = line.match(STREAM_PATTERN);
+    if (streamMatch) {
+      const [, index, language, type, codec, rest] = streamMatch;
+      const sampleRate = rest.match(/(\d+) Hz/);
+      const channels = rest.match(/Hz, ([^,]+)/);
+      const bitrate = rest.match(/(\d+) kb\/s/);
+      probe.streams.push({
+        index: Number(index),
+        type: type.toLowerCase(),
+        codec,
+        language: language && language !== 'und' ? language : undefined,
+        sampleRate: sampleRate ? Number(sampleRate[1]) : undefined,
+        channels: channels?.[1].trim(),
+        bitrate: bitrate ? Number(bitrate[1]) : undefined,
+        isDefault: rest.includes('(default)')
+      });
+    }
+  }
+
+  return probe;
+}
+
+// Recordings with several audio tracks (e.g. one per participant, or a
+// commentary track) usually mark the mixed one as default; otherwise take
+// the track with the most channels, then the highest bitrate.
+export function pickAudioStream(streams: MediaStreamInfo[]): MediaStreamInfo | undefined {
+  const audio = streams.filter(stream => stream.type === 'audio');
+  const channelCount = (stream: MediaStreamInfo) =>
+    stream.channels === 'mono' ? 1 : stream.channels === 'stereo' ? 2 : parseFloat(stream.channels ?? '') || 0;
+
+  return [...audio].sort((a, b) =>
+    Number(b.isDefault) - Number(a.isDefault) ||
+    channelCount(b) - channelCount(a) ||
+    (b.bitrate ?? 0) - (a.bitrate ?? 0)
+  )[0];
+}
+
+export function describeMediaFailure(lines: string[], fileName: string): MediaFormatError {
+  const log = lines.join('\n');
+  const extension = getFileExtension(fileName) || 'this file type';
+
+  if (/moov atom not found/i.test(log)) {
+    return new MediaFormatError('The video file is incomplete. It may not have finished exporting or uploading.');
+  }
+  if (/EBML header parsing failed|Invalid data found when processing input|invalid header/i.test(log)) {
+    return new MediaFormatError(`The file could not be read. It is corrupt or not a real ${extension} file.`);
+  }
+  if (/Decoder \(codec .*\) not found|Unsupported codec|unknown codec/i.test(log)) {
+    return new MediaFormatError('The audio in this file uses a codec that is not supported.');
+  }
+  if (/Error while decoding|corrupt|error reading header/i.test(log)) {
+    return new MediaFormatError('The audio track is damaged and could not be decoded.');
+  }
+  return new MediaFormatError(`The file could not be converted. ${extension} files may not be supported.`);
+}
@@ -0,0 +1,84 @@
+import { MEETINGS_STORE, runRequest } from './db';
+import { SavedMeeting } from '../types/meeting';
+
+export interface MeetingSearchResult {
+  meeting: SavedMeeting;
+  snippet?: string;
+}
+
+const SNIPPET_RADIUS = 60;
+
+export async function saveMeeting(
+  meeting: Omit<SavedMeeting, 'id' | 'createdAt' | 'updatedAt'>
+): Promise<SavedMeeting> {
+  const now = new Date().toISOString();
+  const saved: SavedMeeting = { ...meeting, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await runRequest(MEETINGS_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+}
+
+export async function updateMeeting(
+  id: string,
+  changes: Partial<Omit<SavedMeeting, 'id' | 'createdAt'>>
+): Promise<void> {
+  const existing = await getMeeting(id);
+  if (!existing) {
+    throw new Error('Meeting not found in history');
+  }
+  await runRequest(MEETINGS_STORE, 'readwrite', store =>
+    store.put({ ...existing, ...changes, updatedAt: new Date().toISOString() })
+  );
+}
+
+export async function getMeeting(id: string): Promise<SavedMeeting | undefined> {
+  return runRequest<SavedMeeting | undefined>(MEETINGS_STORE, 'readonly', store => store.get(id));
+}
+
+export async function listMeetings(): Promise<SavedMeeting[]> {
+  const meetings = await runRequest<SavedMeeting[]>(MEETINGS_STORE, 'readonly', store => store.getAll());
+  return meetings.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteMeeting(id: string): Promise<void> {
+  await runRequest(MEETINGS_STORE, 'readwrite', store => store.delete(id));
+}
+
+function getSearchableTexts(meeting: SavedMeeting): string[] {
+  return [
+    meeting.clientData.clientName,
+    meeting.clientData.meetingTitle,
+    meeting.minutes.summary ?? '',
+    ...(meeting.minutes.decisions ?? []),
+    ...meeting.minutes.topics.flatMap(topic => [
+      topic.title,
+      ...topic.keyPoints,
+      ...topic.actionItems.flatMap(item => [item.description, item.owner ?? ''])
+    ]),
+    ...(meeting.minutes.sections ?? []).flatMap(section => [section.title, ...section.items]),
+    ...(meeting.transcript.speakers ?? []).map(speaker => speaker.name),
+    meeting.transcript.text
+  ];
+}
+
+// Every search term must appear somewhere in the meeting; the snippet shows
+// the first term in context.
+export function searchMeetings(meetings: SavedMeeting[], query: string): MeetingSearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return meetings.map(meeting => ({ meeting }));
+  }
+
+  return meetings.flatMap(meeting => {
+    const texts = getSearchableTexts(meeting);
+    const haystack = texts.join('\n').toLowerCase();
+    if (!terms.every(term => haystack.includes(term))) return [];
+
+    const source = texts.find(text => text.toLowerCase().includes(terms[0])) ?? '';
+    const index = source.toLowerCase().indexOf(terms[0]);
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(source.length, index + terms[0].length + SNIPPET_RADIUS);
+    const snippet = `${start > 0 ? '…' : ''}${source.slice(start, end)}${end < source.length ? '…' : ''}`;
+
+    return [{ meeting, snippet }];
+  });
+}
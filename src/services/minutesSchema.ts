@@ -0,0 +1,294 @@
+import {
+  ActionItem,
+  ActionItemPriority,
+  ActionItemStatus,
+  Minutes,
+  MinutesSection,
+  MinutesTemplateSection,
+  MinutesTopic,
+  TopicSentiment
+} from '../types/minutes';
+import { getDecisionSourceKey, getTopicSourceKey } from '../utils/citations';
+
+// Shape the analysis prompt asks for; kept next to the validator so both change together.
+// With `withSegments`, key points, decisions and action items cite the
+// numbered transcript segments they are based on.
+export function buildMinutesJsonShape(
+  sections: Array<Pick<MinutesTemplateSection, 'id'>> = [],
+  withSegments = false
+): string {
+  const statement = withSegments ? '{ "text": "string", "segments": [0] }' : '"string"';
+  const lists = sections.map(section => `    "${section.id}": ["string"]`).join(',\n');
+
+  return `{
+  "summary": "string",
+  "topics": [
+    {
+      "title": "string",
+      "sentiment": "positive | neutral | negative | mixed",
+      "keyPoints": [${statement}],
+      "actionItems": [
+        {
+          "description": "string",
+          "owner": "string or null",
+          "dueDate": "YYYY-MM-DD, the deadline as spoken, or null",
+          "priority": "low | medium | high",
+          "status": "open | in_progress | done"${withSegments ? ',\n          "segments": [0]' : ''}
+        }
+      ]
+    }
+  ],
+  "decisions": [${statement}]${sections.length > 0 ? `,\n  "sections": {\n${lists}\n  }` : ''}
+}`;
+}
+
+// Field names models commonly use instead of the requested ones
+const FIELD_ALIASES: Record<string, string[]> = {
+  summary: ['summary', 'executivesummary', 'tldr', 'overview'],
+  decisions: ['decisions', 'decisionlog', 'decisionsmade', 'keydecisions'],
+  sentiment: ['sentiment', 'tone', 'mood'],
+  topics: ['topics', 'sections', 'agenda', 'agendaitems', 'items'],
+  title: ['title', 'topic', 'name', 'heading', 'subject'],
+  keyPoints: ['keypoints', 'points', 'keypoint', 'highlights', 'notes'],
+  actionItems: ['actionitems', 'actions', 'tasks', 'todos', 'actionitem', 'nextsteps'],
+  description: ['description', 'task', 'text', 'action', 'item', 'title'],
+  text: ['text', 'statement', 'point', 'decision', 'content', 'description'],
+  segments: ['segments', 'segmentids', 'segment', 'sources', 'citations', 'references', 'refs'],
+  owner: ['owner', 'assignee', 'responsible', 'assignedto', 'who'],
+  dueDate: ['duedate', 'due', 'deadline', 'by', 'when'],
+  priority: ['priority', 'importance'],
+  status: ['status', 'state']
+};
+
+const PRIORITIES: ActionItemPriority[] = ['low', 'medium', 'high'];
+const STATUSES: ActionItemStatus[] = ['open', 'in_progress', 'done'];
+const SENTIMENTS: TopicSentiment[] = ['positive', 'neutral', 'negative', 'mixed'];
+
+// Segment numbers cited for each statement, keyed by its position (see
+// getTopicSourceKey in utils/citations)
+export type SegmentReferences = Record<string, number[]>;
+
+export type MinutesValidationResult =
+  | { valid: true; minutes: Minutes; references: SegmentReferences }
+  | { valid: false; errors: string[] };
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z]/g, '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function pickField(source: Record<string, unknown>, field: keyof typeof FIELD_ALIASES): unknown {
+  // The exact name wins, e.g. "topics" over a "sections" object next to it
+  if (field in source) return source[field];
+  const aliases = FIELD_ALIASES[field];
+  const key = Object.keys(source).find(k => aliases.includes(normalizeKey(k)));
+  return key === undefined ? undefined : source[key];
+}
+
+// Accepts numbers as well as "12" or "[12]" strings; anything else is ignored
+function parseSegmentIds(value: unknown): number[] {
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return values.flatMap(entry => {
+    const id = typeof entry === 'number' ? entry : parseInt(String(entry).replace(/[^\d]/g, ''), 10);
+    return Number.isInteger(id) && id >= 0 ? [id] : [];
+  });
+}
+
+// Where a list's cited segments go: `key` gives each entry's position
+interface ReferenceTarget {
+  references: SegmentReferences;
+  key: (index: number) => string;
+}
+
+function addReferences(target: ReferenceTarget | undefined, index: number, segments: unknown) {
+  if (!target) return;
+  target.references[target.key(index)] = parseSegmentIds(segments);
+}
+
+// Entries may also be { text, segments } objects; their segments are collected into `references`
+function validateStringList(value: unknown, path: string, errors: string[], references?: ReferenceTarget): string[] {
+  if (value === undefined || value === null) {
+    errors.push(`${path} is missing`);
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    // A single string is accepted as a one-item list
+    if (typeof value === 'string') return [value];
+    errors.push(`${path} must be an array of strings`);
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (typeof item === 'string') {
+      addReferences(references, index, []);
+      return [item];
+    }
+    const text = isRecord(item) ? optionalString(pickField(item, 'text')) : undefined;
+    if (isRecord(item) && text) {
+      addReferences(references, index, pickField(item, 'segments'));
+      return [text];
+    }
+    errors.push(`${path}[${index}] must be a string`);
+    return [];
+  });
+}
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() && value.trim().toLowerCase() !== 'null'
+    ? value.trim()
+    : undefined;
+
+function parseActionItem(
+  value: unknown,
+  path: string,
+  errors: string[],
+  references: ReferenceTarget,
+  index: number
+): ActionItem | null {
+  if (typeof value === 'string') {
+    // Plain "Owner: task" strings from older prompts or lenient models
+    const match = value.match(/^([^:]{1,40}):\s+(.+)$/);
+    addReferences(references, index, []);
+    return {
+      description: match ? match[2] : value,
+      owner: match ? match[1].trim() : undefined,
+      priority: 'medium',
+      status: 'open'
+    };
+  }
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const description = optionalString(pickField(value, 'description'));
+  if (!description) {
+    errors.push(`${path}.description is missing`);
+    return null;
+  }
+
+  addReferences(references, index, pickField(value, 'segments'));
+  const priority = String(pickField(value, 'priority') ?? '').toLowerCase() as ActionItemPriority;
+  const status = String(pickField(value, 'status') ?? '').toLowerCase().replace(/[\s-]/g, '_') as ActionItemStatus;
+
+  return {
+    description,
+    owner: optionalString(pickField(value, 'owner')),
+    dueDate: optionalString(pickField(value, 'dueDate')),
+    priority: PRIORITIES.includes(priority) ? priority : 'medium',
+    status: STATUSES.includes(status) ? status : 'open'
+  };
+}
+
+function validateActionItems(
+  value: unknown,
+  path: string,
+  errors: string[],
+  references: ReferenceTarget
+): ActionItem[] {
+  // Topics without follow-ups legitimately have no action items
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`);
+    return [];
+  }
+
+  return value.flatMap((item, index) => parseActionItem(item, `${path}[${index}]`, errors, references, index) ?? []);
+}
+
+// A section the model left out is kept as an empty list, since a meeting may
+// simply have no risks or open questions
+function validateSections(
+  value: unknown,
+  templateSections: Array<Pick<MinutesTemplateSection, 'id' | 'title'>>,
+  errors: string[]
+): MinutesSection[] {
+  if (value !== undefined && value !== null && !isRecord(value)) {
+    errors.push('sections must be an object');
+    return [];
+  }
+
+  const source = isRecord(value) ? value : {};
+  return templateSections.map(({ id, title }) => {
+    const key = Object.keys(source).find(k => k === id || normalizeKey(k) === normalizeKey(id));
+    const items = key && source[key] !== null ? validateStringList(source[key], `sections.${id}`, errors) : [];
+    return { id, title, items };
+  });
+}
+
+export function validateMinutes(
+  data: unknown,
+  sections: Array<Pick<MinutesTemplateSection, 'id' | 'title'>> = []
+): MinutesValidationResult {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['response must be a JSON object'] };
+  }
+
+  const rawTopics = pickField(data, 'topics');
+  if (!Array.isArray(rawTopics)) {
+    return {
+      valid: false,
+      errors: [rawTopics === undefined ? 'topics is missing' : 'topics must be an array']
+    };
+  }
+
+  const references: SegmentReferences = {};
+  const topics: MinutesTopic[] = rawTopics.map((rawTopic, index) => {
+    const topicReferences = (field: 'keyPoints' | 'actionItems'): ReferenceTarget => ({
+      references,
+      key: itemIndex => getTopicSourceKey(index, field, itemIndex)
+    });
+    const path = `topics[${index}]`;
+    if (!isRecord(rawTopic)) {
+      errors.push(`${path} must be an object`);
+      return { title: '', keyPoints: [], actionItems: [] };
+    }
+
+    const title = pickField(rawTopic, 'title');
+    if (typeof title !== 'string' || !title.trim()) {
+      errors.push(`${path}.title is missing`);
+    }
+
+    // An unknown tone is dropped rather than guessed
+    const sentiment = String(pickField(rawTopic, 'sentiment') ?? '').toLowerCase() as TopicSentiment;
+
+    return {
+      title: typeof title === 'string' ? title : '',
+      keyPoints: validateStringList(pickField(rawTopic, 'keyPoints'), `${path}.keyPoints`, errors, topicReferences('keyPoints')),
+      actionItems: validateActionItems(pickField(rawTopic, 'actionItems'), `${path}.actionItems`, errors, topicReferences('actionItems')),
+      ...(SENTIMENTS.includes(sentiment) && { sentiment })
+    };
+  });
+
+  // Both are optional so minutes saved before they existed can still be translated;
+  // meetings where nothing was decided legitimately have no decisions
+  const summary = optionalString(pickField(data, 'summary'));
+  const rawDecisions = pickField(data, 'decisions');
+  const decisions = rawDecisions === undefined || rawDecisions === null
+    ? []
+    : validateStringList(rawDecisions, 'decisions', errors, { references, key: getDecisionSourceKey });
+
+  const minutes: Minutes = { summary, topics, decisions };
+  if (sections.length > 0) {
+    minutes.sections = validateSections(data.sections, sections, errors);
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, minutes, references };
+}
+
+export function parseMinutes(
+  content: string | null,
+  sections: Array<Pick<MinutesTemplateSection, 'id' | 'title'>> = []
+): MinutesValidationResult {
+  if (!content) {
+    return { valid: false, errors: ['response is empty'] };
+  }
+
+  try {
+    return validateMinutes(JSON.parse(content), sections);
+  } catch {
+    return { valid: false, errors: ['response is not valid JSON'] };
+  }
+}
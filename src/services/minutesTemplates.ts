@@ -0,0 +1,176 @@
+import { MinutesTemplate } from '../types/minutes';
+
+// Named setups for different kinds of meetings. Built-in templates can be
+// edited (the edited copy is stored under the same id) and restored; custom
+// templates are stored alongside them.
+
+interface MinutesTemplateSettings {
+  // Bumped when stored templates need migrating; missing before version 2
+  version: number;
+  selectedId: string;
+  saved: MinutesTemplate[];
+}
+
+const STORAGE_KEY = 'minutesTemplateSettings';
+const SETTINGS_VERSION = 2;
+
+// The minutes' own decisions log; sections can't use its id
+const RESERVED_SECTION_IDS = ['decisions'];
+
+export const MINUTES_TEMPLATES: MinutesTemplate[] = [
+  {
+    id: 'general',
+    name: 'General meeting',
+    description: 'Topics with key points and action items.',
+    instructions: '',
+    sections: []
+  },
+  {
+    id: 'sales-call',
+    name: 'Sales call',
+    description: 'Customer needs, objections and the agreed next steps.',
+    instructions: 'This is a sales call with a prospect or customer. Focus on what the customer needs, their concerns and any buying signals.',
+    sections: [
+      { id: 'attendees', title: 'Attendees', instructions: 'Everyone who took part, with their company and role when mentioned.' },
+      { id: 'customerNeeds', title: 'Customer needs', instructions: 'Problems, requirements and goals the customer described.' },
+      { id: 'objections', title: 'Objections', instructions: 'Concerns about price, timing, fit or competitors, and how they were answered.' },
+      { id: 'nextMeeting', title: 'Next meeting', instructions: 'When the next call or meeting is planned and what it will cover.' }
+    ]
+  },
+  {
+    id: 'sprint-review',
+    name: 'Sprint review',
+    description: 'Completed work, risks and open questions.',
+    instructions: 'This is a sprint review. Focus on what was completed or demoed and the feedback it received.',
+    sections: [
+      { id: 'completedWork', title: 'Completed work', instructions: 'Stories and features that were finished or demoed.' },
+      { id: 'risks', title: 'Risks and blockers', instructions: 'Anything that could delay the next sprint or the release.' },
+      { id: 'openQuestions', title: 'Open questions', instructions: 'Questions that were raised but not answered.' }
+    ]
+  },
+  {
+    id: 'board-meeting',
+    name: 'Board meeting',
+    description: 'Attendees, risks, deferred matters and the next meeting.',
+    instructions: 'This is a board meeting. Record resolutions as decisions, precisely and with who proposed them and the outcome of any vote.',
+    sections: [
+      { id: 'attendees', title: 'Attendees', instructions: 'Board members and guests who were present.' },
+      { id: 'risks', title: 'Risks', instructions: 'Financial, legal or strategic risks that were discussed.' },
+      { id: 'openQuestions', title: 'Open questions', instructions: 'Matters deferred to a later meeting.' },
+      { id: 'nextMeeting', title: 'Next meeting', instructions: 'The date and agenda of the next board meeting.' }
+    ]
+  }
+];
+
+// Matches "Decisions", "Decision", "Decisiones" and "Decisión"
+const DECISIONS_SECTION_PATTERN = /^decisi[oó]n(e?s)?$/i;
+
+// Version 2: minutes got their own decisions log, so decisions sections saved
+// before it existed would list them twice
+function migrateSettings(settings: MinutesTemplateSettings): MinutesTemplateSettings {
+  if (settings.version >= SETTINGS_VERSION) return settings;
+
+  const migrated = {
+    ...settings,
+    version: SETTINGS_VERSION,
+    saved: settings.saved.map(template => ({
+      ...template,
+      sections: template.sections.filter(section =>
+        !DECISIONS_SECTION_PATTERN.test(section.id) && !DECISIONS_SECTION_PATTERN.test(section.title.trim())
+      )
+    }))
+  };
+  saveSettings(migrated);
+  return migrated;
+}
+
+function loadSettings(): MinutesTemplateSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return migrateSettings({
+        version: typeof parsed.version === 'number' ? parsed.version : 1,
+        selectedId: parsed.selectedId ?? MINUTES_TEMPLATES[0].id,
+        saved: Array.isArray(parsed.saved) ? parsed.saved : []
+      });
+    }
+  } catch (error) {
+    console.error('Failed to load minutes template settings:', error);
+  }
+  return { version: SETTINGS_VERSION, selectedId: MINUTES_TEMPLATES[0].id, saved: [] };
+}
+
+function saveSettings(settings: MinutesTemplateSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Failed to save minutes template settings:', error);
+  }
+}
+
+export function isBuiltInMinutesTemplate(id: string): boolean {
+  return MINUTES_TEMPLATES.some(template => template.id === id);
+}
+
+// Built-in templates first (with any saved edits), then custom ones
+export function getMinutesTemplates(): MinutesTemplate[] {
+  const { saved } = loadSettings();
+  return [
+    ...MINUTES_TEMPLATES.map(template => saved.find(entry => entry.id === template.id) ?? template),
+    ...saved.filter(entry => !isBuiltInMinutesTemplate(entry.id))
+  ];
+}
+
+export function getMinutesTemplate(id: string): MinutesTemplate {
+  const templates = getMinutesTemplates();
+  return templates.find(template => template.id === id) ?? templates[0];
+}
+
+export function getSelectedMinutesTemplateId(): string {
+  return loadSettings().selectedId;
+}
+
+export function setSelectedMinutesTemplateId(id: string) {
+  saveSettings({ ...loadSettings(), selectedId: id });
+}
+
+export function saveMinutesTemplate(template: MinutesTemplate) {
+  const settings = loadSettings();
+  saveSettings({
+    ...settings,
+    saved: [...settings.saved.filter(entry => entry.id !== template.id), template]
+  });
+}
+
+// Deletes a custom template, or restores a built-in one to its defaults
+export function deleteMinutesTemplate(id: string) {
+  const settings = loadSettings();
+  const removed = settings.selectedId === id && !isBuiltInMinutesTemplate(id);
+  saveSettings({
+    ...settings,
+    selectedId: removed ? MINUTES_TEMPLATES[0].id : settings.selectedId,
+    saved: settings.saved.filter(entry => entry.id !== id)
+  });
+}
+
+export function createMinutesTemplate(base: MinutesTemplate): MinutesTemplate {
+  return {
+    ...base,
+    id: `custom-${Date.now().toString(36)}`,
+    name: `${base.name} (copy)`,
+    sections: base.sections.map(section => ({ ...section }))
+  };
+}
+
+// Section ids become JSON keys in the prompt, so they are kept to camelCase letters and digits
+export function createSectionId(title: string, takenIds: Set<string>): string {
+  // Accents are dropped rather than the letters, so "Próximos pasos" becomes "proximosPasos"
+  const words = title.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').match(/[a-z0-9]+/g) ?? [];
+  const base = words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('') || 'section';
+  let id = base;
+  for (let n = 2; RESERVED_SECTION_IDS.includes(id) || takenIds.has(id); n++) {
+    id = `${base}${n}`;
+  }
+  return id;
+}
@@ -0,0 +1,121 @@
+import { AudioProcessor, ConvertedAudio } from './audioProcessor';
+import { AudioProfile } from './audioProfiles';
+import { getStageKey, hashFile, loadStage, saveStage } from './stageCache';
+import { CutList } from '../types/edits';
+import { ClientData } from '../types/meeting';
+import { Minutes } from '../types/minutes';
+import { Transcript } from '../types/transcript';
+import { filterTranscriptToCutList, mapTranscriptToSource } from '../utils/cutList';
+import { getOutputLanguage, getTranslationLanguage, toLanguageCode } from '../utils/languages';
+
+export interface MeetingResult {
+  transcript: Transcript;
+  minutes: Minutes;
+}
+
+export interface PipelineOptions {
+  // A transcript made while recording; conversion and transcription are skipped
+  liveTranscript?: Transcript;
+  // Sections of the recording to leave out; transcript times still refer to the original
+  cutList?: CutList;
+  profile?: AudioProfile;
+  onTranscript?: (transcript: Transcript) => void;
+}
+
+// Returns the saved output of a stage, or runs it and saves what it produced
+async function runCached<T>(
+  processor: AudioProcessor,
+  key: string,
+  run: () => Promise<T>,
+  onCached: () => void
+): Promise<T> {
+  processor.throwIfCancelled();
+  const saved = await loadStage<T>(key);
+  processor.throwIfCancelled();
+  if (saved !== undefined) {
+    onCached();
+    return saved;
+  }
+  const value = await run();
+  await saveStage(key, value);
+  return value;
+}
+
+// The full upload-to-minutes pipeline, shared by the single-file flow and the
+// batch queue. Every stage is cached by its inputs, so running it again after
+// a failure (or with only the analysis settings changed) resumes at the first
+// stage whose inputs are new.
+export async function processMeeting(
+  processor: AudioProcessor,
+  audioFile: File,
+  clientData: ClientData,
+  { liveTranscript, cutList, profile, onTranscript }: PipelineOptions = {}
+): Promise<MeetingResult> {
+  let rawTranscript: Transcript;
+  // A live transcript in another language than the one chosen afterwards is
+  // redone from the recording
+  const spokenLanguage = clientData.language?.spoken;
+  const useLiveTranscript = liveTranscript && (!spokenLanguage || toLanguageCode(liveTranscript.language) === spokenLanguage);
+
+  if (useLiveTranscript) {
+    processor.skipStage('converting');
+    processor.skipStage('transcribing', { stage: 'Using the live transcript' });
+    rawTranscript = cutList ? filterTranscriptToCutList(liveTranscript, cutList) : liveTranscript;
+  } else {
+    const convertKey = await getStageKey('converting', await hashFile(audioFile), cutList ?? null, profile ?? null);
+    const converted = await runCached<ConvertedAudio>(
+      processor,
+      convertKey,
+      () => processor.convertToWav(audioFile, { cutList, profile }),
+      () => processor.skipStage('converting', { stage: 'Using the saved conversion' })
+    );
+    rawTranscript = await runCached(
+      processor,
+      await getStageKey('transcribing', convertKey, spokenLanguage ?? null),
+      async () => {
+        const cutTranscript = await processor.transcribeAudio(converted.wav, spokenLanguage);
+        return converted.cutList ? mapTranscriptToSource(cutTranscript, converted.cutList) : cutTranscript;
+      },
+      () => processor.skipStage('transcribing', { stage: 'Using the saved transcript' })
+    );
+  }
+
+  const transcript = await runCached(
+    processor,
+    await getStageKey('speakers', rawTranscript),
+    () => processor.identifySpeakers(rawTranscript),
+    () => {}
+  );
+  onTranscript?.(transcript);
+  const minutes = await analyzeTranscript(processor, transcript, clientData);
+
+  return { transcript, minutes };
+}
+
+// Writes the minutes for a transcript that already has its speakers, in the
+// chosen output language and, for bilingual minutes, translated as well
+export async function analyzeTranscript(
+  processor: AudioProcessor,
+  transcript: Transcript,
+  clientData: ClientData
+): Promise<Minutes> {
+  const language = getOutputLanguage(clientData.language, transcript.language);
+  const minutes = await runCached(
+    processor,
+    await getStageKey('minutes', transcript, clientData.date, language ?? null, clientData.template ?? null),
+    () => processor.segmentByTopics(transcript, clientData.date, language, clientData.template),
+    () => processor.skipStage('analyzing', { stage: 'Using the saved minutes' })
+  );
+  if (!clientData.language?.bilingual) {
+    return minutes;
+  }
+
+  const translationLanguage = getTranslationLanguage(language);
+  const translation = await runCached(
+    processor,
+    await getStageKey('translation', minutes, translationLanguage),
+    () => processor.translateMinutes(minutes, translationLanguage),
+    () => processor.skipStage('analyzing', { stage: 'Using the saved translation' })
+  );
+  return { ...minutes, translation };
+}
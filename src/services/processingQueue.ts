@@ -0,0 +1,153 @@
+import { AudioProcessor, ProcessStage, ProcessingProgress } from './audioProcessor';
+import { AudioProfile } from './audioProfiles';
+import { saveMeeting } from './meetingStore';
+import { processMeeting } from './pipeline';
+import { ClientData } from '../types/meeting';
+
+// Every job runs its own ffmpeg instance, so keep the number of parallel jobs low
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+export type BatchJobStatus = 'queued' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchJob {
+  id: string;
+  file: File;
+  clientData: ClientData;
+  saveAudio: boolean;
+  profile?: AudioProfile;
+  status: BatchJobStatus;
+  stage: ProcessStage;
+  progress: ProcessingProgress;
+  message?: string;
+  error?: string;
+  meetingId?: string;
+}
+
+export interface BatchEntry {
+  file: File;
+  clientData: ClientData;
+  saveAudio: boolean;
+  profile?: AudioProfile;
+}
+
+const EMPTY_PROGRESS: ProcessingProgress = {
+  converting: 0,
+  transcribing: 0,
+  analyzing: 0
+};
+
+export function getJobProgress(job: BatchJob): number {
+  const { converting, transcribing, analyzing } = job.progress;
+  return (converting + transcribing + analyzing) / 3;
+}
+
+export class ProcessingQueue {
+  private jobs: BatchJob[] = [];
+  private processors = new Map<string, AudioProcessor>();
+
+  constructor(
+    private onChange: (jobs: BatchJob[]) => void,
+    private concurrency: number = DEFAULT_BATCH_CONCURRENCY
+  ) {}
+
+  getJobs(): BatchJob[] {
+    return this.jobs;
+  }
+
+  add(entries: BatchEntry[]) {
+    const jobs = entries.map<BatchJob>(entry => ({
+      ...entry,
+      id: crypto.randomUUID(),
+      status: 'queued',
+      stage: 'converting',
+      progress: { ...EMPTY_PROGRESS }
+    }));
+    this.jobs = [...this.jobs, ...jobs];
+    this.emit();
+    this.pump();
+  }
+
+  retry(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    this.updateJob(id, {
+      status: 'queued',
+      stage: 'converting',
+      progress: { ...EMPTY_PROGRESS },
+      message: undefined,
+      error: undefined
+    });
+    this.pump();
+  }
+
+  cancel(id: string) {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      this.updateJob(id, { status: 'cancelled' });
+    } else if (job.status === 'processing') {
+      // The running pipeline rejects with 'Operation cancelled' and run() records it
+      this.processors.get(id)?.cancel();
+    }
+  }
+
+  cancelAll() {
+    this.jobs.forEach(job => this.cancel(job.id));
+  }
+
+  clear() {
+    this.cancelAll();
+    this.jobs = [];
+    this.emit();
+  }
+
+  private emit() {
+    this.onChange(this.jobs);
+  }
+
+  private updateJob(id: string, changes: Partial<BatchJob>) {
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.emit();
+  }
+
+  private pump() {
+    const running = this.jobs.filter(job => job.status === 'processing').length;
+    const next = this.jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, this.concurrency - running));
+    next.forEach(job => this.run(job));
+  }
+
+  private async run(job: BatchJob) {
+    const processor = new AudioProcessor((stage, progress, details) => {
+      this.updateJob(job.id, { stage, progress, message: details?.stage });
+    });
+    this.processors.set(job.id, processor);
+    this.updateJob(job.id, { status: 'processing' });
+
+    try {
+      const { transcript, minutes } = await processMeeting(processor, job.file, job.clientData, {
+        profile: job.profile
+      });
+      const saved = await saveMeeting({
+        clientData: job.clientData,
+        transcript,
+        minutes,
+        audio: job.saveAudio ? job.file : undefined,
+        audioName: job.saveAudio ? job.file.name : undefined
+      });
+      this.updateJob(job.id, { status: 'done', meetingId: saved.id, message: undefined });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An error occurred';
+      if (errorMessage === 'Operation cancelled') {
+        this.updateJob(job.id, { status: 'cancelled', message: undefined });
+      } else {
+        this.updateJob(job.id, { status: 'failed', error: errorMessage, message: undefined });
+      }
+    } finally {
+      processor.dispose();
+      this.processors.delete(job.id);
+      this.pump();
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { createMockProviders } from './mockProvider';
+import { ServerHealth, checkServerHealth, createServerProviders } from './serverProvider';
+import { AIProviders } from './types';
+
+export type ProviderName = 'server' | 'mock';
+
+// Empty means the API is served from the same origin as the app
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? '').replace(/\/$/, '');
+
+export function getProviderName(): ProviderName {
+  return import.meta.env.VITE_AI_PROVIDER === 'mock' ? 'mock' : 'server';
+}
+
+export function checkProviderHealth(): Promise<ServerHealth> {
+  if (getProviderName() === 'mock') {
+    return Promise.resolve({ status: 'ok', provider: 'mock', configured: true });
+  }
+  return checkServerHealth(API_BASE_URL);
+}
+
+export function createProviders(): AIProviders {
+  return getProviderName() === 'mock'
+    ? createMockProviders()
+    : createServerProviders(API_BASE_URL);
+}
+
+export type {
+  AIProviders,
+  AnalysisProvider,
+  AnalysisRequest,
+  RequestOptions,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from './types';
+export type { ServerHealth } from './serverProvider';
@@ -0,0 +1,170 @@
+import { getWavDuration } from '../audioChunker';
+import { Minutes } from '../../types/minutes';
+import { Transcript } from '../../types/transcript';
+import {
+  AIProviders,
+  AnalysisProvider,
+  AnalysisRequest,
+  RequestOptions,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from './types';
+
+// Deterministic stand-ins for the AI services so the whole flow can be
+// exercised offline. Output depends only on the input, never on randomness.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_SEGMENT_SECONDS = 6;
+
+const MOCK_SCRIPT = [
+  'Thanks everyone for joining, let us start with the project status.',
+  'The first milestone is complete and the client approved the designs.',
+  'Great, what is still pending for the second milestone?',
+  'We need the final content from the marketing team before we can launch.',
+  'I can follow up with marketing and send them a reminder this week.',
+  'Next, let us review the budget for the next quarter.',
+  'We are slightly over budget on hosting, so we should review the plan.',
+  'I will prepare a comparison of hosting options for our next meeting.',
+  'Sounds good. Anything else before we wrap up?',
+  'No, that covers it. Thanks everyone.'
+];
+
+// Stands in for network latency, and like a real request stops when aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Operation cancelled'));
+      return;
+    }
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timeout);
+      reject(new Error('Operation cancelled'));
+    }, { once: true });
+  });
+}
+
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  async transcribe({ audio, language }: TranscriptionRequest, { signal }: RequestOptions = {}): Promise<Transcript> {
+    await delay(MOCK_LATENCY_MS, signal);
+
+    const duration = Math.max(MOCK_SEGMENT_SECONDS, getWavDuration(audio));
+    const count = Math.ceil(duration / MOCK_SEGMENT_SECONDS);
+    const segments = Array.from({ length: count }, (_, id) => ({
+      id,
+      start: id * MOCK_SEGMENT_SECONDS,
+      end: Math.min(duration, (id + 1) * MOCK_SEGMENT_SECONDS),
+      text: MOCK_SCRIPT[id % MOCK_SCRIPT.length]
+    }));
+
+    return {
+      text: segments.map(segment => segment.text).join(' '),
+      duration,
+      language: language ?? 'english',
+      segments
+    };
+  }
+}
+
+export class MockAnalysisProvider implements AnalysisProvider {
+  async complete({ purpose, messages }: AnalysisRequest, { signal }: RequestOptions = {}): Promise<string> {
+    await delay(MOCK_LATENCY_MS, signal);
+    const prompt = messages[messages.length - 1]?.content ?? '';
+
+    switch (purpose) {
+      case 'translation': {
+        // Marks each text with the target language instead of translating it
+        const language = messages[0]?.content.match(/into (\w+)/)?.[1] ?? 'Translated';
+        const tag = (text: string) => `[${language}] ${text}`;
+        const { summary, topics, decisions, sections } =
+          JSON.parse(prompt) as Omit<Minutes, 'sections'> & { sections?: Record<string, string[]> };
+        return JSON.stringify({
+          summary: summary && tag(summary),
+          decisions: (decisions ?? []).map(tag),
+          topics: topics.map(topic => ({
+            ...topic,
+            title: tag(topic.title),
+            keyPoints: topic.keyPoints.map(tag),
+            actionItems: topic.actionItems.map(item => ({ ...item, description: tag(item.description) }))
+          })),
+          sections: Object.fromEntries(Object.entries(sections ?? {}).map(([id, items]) => [id, items.map(tag)]))
+        });
+      }
+      case 'summary': {
+        // Keeps the first sentence of each part's summary
+        const summaries = [...prompt.matchAll(/^Part \d+: ([^.\n]*\.?)/gm)].map(match => match[1]);
+        return JSON.stringify({ summary: summaries.join(' ') });
+      }
+      case 'speakers': {
+        // Alternate between two speakers over the numbered segments
+        const ids = [...prompt.matchAll(/^\[(\d+)\]/gm)].map(match => Number(match[1]));
+        return JSON.stringify({
+          segments: ids.map(id => ({ id, speaker: (id % 2) + 1 }))
+        });
+      }
+      case 'minutes': {
+        // Use the speaker names from the "[segment] Name: text" lines as owners
+        const names = [...new Set([...prompt.matchAll(/^\[\d+\] ([^:\n]{1,40}): /gm)].map(match => match[1]))];
+        const owner = (index: number) => names[index % Math.max(1, names.length)] ?? null;
+        // Cite the lines of MOCK_SCRIPT each statement paraphrases, when the transcript reaches them
+        const lines = new Set([...prompt.matchAll(/^\[(\d+)\]/gm)].map(match => Number(match[1])));
+        const segments = (...ids: number[]) => ids.filter(id => lines.has(id));
+        const cite = (text: string, ...ids: number[]) => ({ text, segments: segments(...ids) });
+        // Fill each section the template asks for ("- "id" (Title): ...") with one entry
+        const sections = [...(messages[0]?.content ?? '').matchAll(/^- "(\w+)" \(([^)]*)\)/gm)]
+          .map(match => [match[1], [`Discussed under ${match[2].toLowerCase()} in the meeting.`]]);
+        return JSON.stringify({
+          summary: 'The team reviewed the project status and the quarterly budget. The first milestone is done, the second waits on marketing content, and hosting costs need a closer look.',
+          sections: Object.fromEntries(sections),
+          decisions: [cite('Hosting options will be compared before changing the plan.', 7)],
+          topics: [
+            {
+              title: 'Project status',
+              sentiment: 'positive',
+              keyPoints: [
+                cite('The first milestone is complete and the designs were approved.', 1),
+                cite('The second milestone is blocked on final marketing content.', 2, 3)
+              ],
+              actionItems: [
+                {
+                  description: 'Follow up with marketing about the final content',
+                  owner: owner(1),
+                  dueDate: 'this week',
+                  priority: 'high',
+                  status: 'open',
+                  segments: segments(4)
+                }
+              ]
+            },
+            {
+              title: 'Budget review',
+              sentiment: 'mixed',
+              keyPoints: [
+                cite('Hosting costs are slightly over budget for the quarter.', 6),
+                // Nothing in the script says this, so it shows up as unsupported
+                cite('The client asked for a discount on the next invoice.')
+              ],
+              actionItems: [
+                {
+                  description: 'Prepare a comparison of hosting options',
+                  owner: owner(0),
+                  dueDate: 'next meeting',
+                  priority: 'medium',
+                  status: 'open',
+                  segments: segments(7)
+                }
+              ]
+            }
+          ]
+        });
+      }
+    }
+  }
+}
+
+export function createMockProviders(): AIProviders {
+  return {
+    transcription: new MockTranscriptionProvider(),
+    analysis: new MockAnalysisProvider()
+  };
+}
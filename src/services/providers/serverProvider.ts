@@ -0,0 +1,93 @@
+import { waitForOnline } from '../connectivity';
+import { NetworkError } from '../retry';
+import { Transcript } from '../../types/transcript';
+import {
+  AIProviders,
+  AnalysisProvider,
+  AnalysisRequest,
+  RequestOptions,
+  TranscriptionProvider,
+  TranscriptionRequest
+} from './types';
+
+// Talks to the app's own API server (server/index.ts), which holds the API key
+
+export interface ServerHealth {
+  status: string;
+  provider: string;
+  configured: boolean;
+}
+
+export class ProviderRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// AI requests wait for the connection to come back instead of failing offline
+async function request<T>(url: string, init: RequestInit, waitForConnection = true): Promise<T> {
+  if (waitForConnection) {
+    await waitForOnline(init.signal ?? undefined);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw new Error('Operation cancelled');
+    }
+    throw new NetworkError('Could not reach the API server: ' + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+  const body = await response.json().catch(() => null);
+  if (init.signal?.aborted) {
+    throw new Error('Operation cancelled');
+  }
+
+  if (!response.ok) {
+    throw new ProviderRequestError(
+      body?.error || `Server responded with ${response.status} ${response.statusText}`,
+      response.status
+    );
+  }
+  return body as T;
+}
+
+export class ServerTranscriptionProvider implements TranscriptionProvider {
+  constructor(private baseURL: string) {}
+
+  transcribe({ audio, language }: TranscriptionRequest, { signal }: RequestOptions = {}): Promise<Transcript> {
+    const params = language ? `?${new URLSearchParams({ language })}` : '';
+    return request<Transcript>(`${this.baseURL}/api/transcribe${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': audio.type || 'audio/wav' },
+      body: audio,
+      signal
+    });
+  }
+}
+
+export class ServerAnalysisProvider implements AnalysisProvider {
+  constructor(private baseURL: string) {}
+
+  async complete(analysisRequest: AnalysisRequest, { signal }: RequestOptions = {}): Promise<string> {
+    const { content } = await request<{ content: string }>(`${this.baseURL}/api/analyze`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(analysisRequest),
+      signal
+    });
+    return content;
+  }
+}
+
+export function checkServerHealth(baseURL: string): Promise<ServerHealth> {
+  return request<ServerHealth>(`${baseURL}/api/health`, { method: 'GET' }, false);
+}
+
+export function createServerProviders(baseURL: string): AIProviders {
+  return {
+    transcription: new ServerTranscriptionProvider(baseURL),
+    analysis: new ServerAnalysisProvider(baseURL)
+  };
+}
@@ -0,0 +1,38 @@
+import { Transcript } from '../../types/transcript';
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  language?: string;
+}
+
+// Aborting the signal cancels the request, including the upstream model call
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionProvider {
+  transcribe(request: TranscriptionRequest, options?: RequestOptions): Promise<Transcript>;
+}
+
+// Lets providers that don't call a real model (the mock) answer each kind of prompt
+export type AnalysisPurpose = 'speakers' | 'minutes' | 'summary' | 'translation';
+
+export interface AnalysisMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AnalysisRequest {
+  purpose: AnalysisPurpose;
+  messages: AnalysisMessage[];
+}
+
+export interface AnalysisProvider {
+  // Returns the raw JSON text produced by the model
+  complete(request: AnalysisRequest, options?: RequestOptions): Promise<string>;
+}
+
+export interface AIProviders {
+  transcription: TranscriptionProvider;
+  analysis: AnalysisProvider;
+}
@@ -0,0 +1,209 @@
+// Records the microphone, optionally mixed with tab or system audio shared
+// through getDisplayMedia, into a single compressed file via MediaRecorder.
+
+const PREFERRED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/ogg;codecs=opus',
+  'audio/mp4'
+];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a'
+};
+
+// Chunks are flushed every second so little is lost if the tab crashes
+const TIMESLICE_MS = 1000;
+const PCM_BUFFER_SIZE = 4096;
+
+export type RecorderState = 'idle' | 'recording' | 'paused' | 'stopped';
+
+export interface RecorderOptions {
+  includeSystemAudio: boolean;
+  // Receives the mixed input as raw samples, e.g. for live transcription
+  onAudioData?: (samples: Float32Array, sampleRate: number) => void;
+}
+
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function isSystemAudioSupported(): boolean {
+  return !!navigator.mediaDevices?.getDisplayMedia;
+}
+
+function getSupportedMimeType(): string | undefined {
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+function getRecordingFileName(mimeType: string): string {
+  const extension = FILE_EXTENSIONS[mimeType.split(';')[0]] ?? 'webm';
+  const stamp = new Date().toISOString().slice(0, 16).replace(':', '-');
+  return `recording-${stamp}.${extension}`;
+}
+
+export class BrowserRecorder {
+  private streams: MediaStream[] = [];
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private pcmTap: ScriptProcessorNode | null = null;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private elapsedBeforePause = 0;
+  state: RecorderState = 'idle';
+
+  async start(options: RecorderOptions) {
+    if (!isRecordingSupported()) {
+      throw new Error('Recording is not supported in this browser.');
+    }
+
+    try {
+      const microphone = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
+      this.streams.push(microphone);
+
+      if (options.includeSystemAudio) {
+        // Browsers only offer audio sharing together with a video capture
+        const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+        this.streams.push(display);
+        if (display.getAudioTracks().length === 0) {
+          throw new Error('No tab or system audio was shared. Select "Share audio" in the browser dialog and try again.');
+        }
+      }
+
+      this.audioContext = new AudioContext();
+      const destination = this.audioContext.createMediaStreamDestination();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 2048;
+
+      for (const stream of this.streams) {
+        if (stream.getAudioTracks().length === 0) continue;
+        const source = this.audioContext.createMediaStreamSource(new MediaStream(stream.getAudioTracks()));
+        source.connect(destination);
+        source.connect(this.analyser);
+      }
+
+      if (options.onAudioData) {
+        this.connectPcmTap(options.onAudioData);
+      }
+
+      const mimeType = getSupportedMimeType();
+      this.mediaRecorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+      this.mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.chunks.push(event.data);
+      };
+      this.mediaRecorder.start(TIMESLICE_MS);
+
+      this.startedAt = performance.now();
+      this.elapsedBeforePause = 0;
+      this.state = 'recording';
+    } catch (error) {
+      this.release();
+      if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        throw new Error('Permission to record audio was denied.');
+      }
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        throw new Error('No microphone was found.');
+      }
+      throw error instanceof Error ? error : new Error('Failed to start recording');
+    }
+  }
+
+  pause() {
+    if (this.state !== 'recording' || !this.mediaRecorder) return;
+    this.mediaRecorder.pause();
+    this.elapsedBeforePause += performance.now() - this.startedAt;
+    this.state = 'paused';
+  }
+
+  resume() {
+    if (this.state !== 'paused' || !this.mediaRecorder) return;
+    this.mediaRecorder.resume();
+    this.startedAt = performance.now();
+    this.state = 'recording';
+  }
+
+  // Recorded seconds, excluding paused time
+  getDuration(): number {
+    const running = this.state === 'recording' ? performance.now() - this.startedAt : 0;
+    return (this.elapsedBeforePause + running) / 1000;
+  }
+
+  // Peak level of the current input between 0 and 1
+  getLevel(): number {
+    if (!this.analyser || this.state !== 'recording') return 0;
+    const samples = new Float32Array(this.analyser.fftSize);
+    this.analyser.getFloatTimeDomainData(samples);
+    let peak = 0;
+    for (const sample of samples) {
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    return Math.min(1, peak);
+  }
+
+  async stop(): Promise<File> {
+    const recorder = this.mediaRecorder;
+    if (!recorder || this.state === 'idle' || this.state === 'stopped') {
+      throw new Error('Recording has not been started');
+    }
+
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+    });
+    this.elapsedBeforePause = this.getDuration() * 1000;
+    recorder.stop();
+    await stopped;
+
+    const mimeType = recorder.mimeType || 'audio/webm';
+    const file = new File(this.chunks, getRecordingFileName(mimeType), { type: mimeType });
+    this.release();
+    this.state = 'stopped';
+    return file;
+  }
+
+  discard() {
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+    }
+    this.release();
+    this.chunks = [];
+    this.state = 'idle';
+  }
+
+  // ScriptProcessorNode is deprecated but needs no separate worklet module and
+  // is still supported everywhere MediaRecorder is
+  private connectPcmTap(onAudioData: NonNullable<RecorderOptions['onAudioData']>) {
+    const context = this.audioContext!;
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    this.pcmTap = context.createScriptProcessor(PCM_BUFFER_SIZE, 1, 1);
+    this.pcmTap.onaudioprocess = (event) => {
+      // Paused audio is not in the recording either, so keep both timelines aligned
+      if (this.state !== 'recording') return;
+      onAudioData(new Float32Array(event.inputBuffer.getChannelData(0)), context.sampleRate);
+    };
+    this.analyser!.connect(this.pcmTap);
+    // The processor only runs while connected to the destination
+    this.pcmTap.connect(mute);
+    mute.connect(context.destination);
+  }
+
+  private release() {
+    if (this.pcmTap) {
+      this.pcmTap.onaudioprocess = null;
+      this.pcmTap.disconnect();
+      this.pcmTap = null;
+    }
+    this.streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    this.streams = [];
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.analyser = null;
+    this.mediaRecorder = null;
+  }
+}
@@ -0,0 +1,63 @@
+// Retries transient failures (rate limits, overloaded or unreachable
+// servers) with exponential backoff; other errors are thrown right away.
+
+const TRANSIENT_STATUSES = [408, 409, 425, 429, 500, 502, 503, 504];
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// Thrown where a request is made when it never reached the server. fetch
+// rejects with a plain TypeError then, which can't be told apart from a bug.
+export class NetworkError extends Error {}
+
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof NetworkError) {
+    return true;
+  }
+  const status = (error as { status?: number } | null)?.status;
+  if (typeof status === 'number') {
+    return TRANSIENT_STATUSES.includes(status);
+  }
+  return error instanceof Error && /rate limit|timed? ?out|overloaded|temporarily/i.test(error.message);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Operation cancelled'));
+      return;
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timeout);
+      reject(new Error('Operation cancelled'));
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 4, baseDelayMs = 2000, maxDelayMs = 60000, signal, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt > retries || !isTransientError(error) || signal?.aborted) {
+        throw error;
+      }
+      // Jitter keeps parallel batch jobs from retrying in lockstep
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      onRetry?.(attempt, delay, error);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { STAGE_CACHE_STORE, runRequest } from './db';
+
+// Outputs of finished pipeline stages, so a failed run can pick up where it
+// stopped instead of converting and transcribing (and paying) again.
+
+const MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+// Larger files are fingerprinted from samples instead of read in full
+const FULL_HASH_LIMIT_BYTES = 100 * 1024 * 1024;
+const SAMPLE_BYTES = 1024 * 1024;
+
+interface StageCacheEntry {
+  key: string;
+  createdAt: string;
+  value: unknown;
+}
+
+async function sha256(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function hashText(text: string): Promise<string> {
+  return sha256(new TextEncoder().encode(text));
+}
+
+// Hashes the content of small files; for large ones the size plus the start,
+// middle and end of the file identify it well enough without loading it all
+export async function hashFile(file: Blob): Promise<string> {
+  if (file.size <= FULL_HASH_LIMIT_BYTES) {
+    return sha256(await file.arrayBuffer());
+  }
+
+  const middle = Math.floor(file.size / 2);
+  const samples = await new Blob([
+    String(file.size),
+    file.slice(0, SAMPLE_BYTES),
+    file.slice(middle, middle + SAMPLE_BYTES),
+    file.slice(file.size - SAMPLE_BYTES)
+  ]).arrayBuffer();
+  return sha256(samples);
+}
+
+export async function getStageKey(stage: string, ...inputs: unknown[]): Promise<string> {
+  return `${stage}:${await hashText(JSON.stringify(inputs))}`;
+}
+
+export async function loadStage<T>(key: string): Promise<T | undefined> {
+  try {
+    const entry = await runRequest<StageCacheEntry | undefined>(STAGE_CACHE_STORE, 'readonly', store => store.get(key));
+    if (!entry || Date.now() - new Date(entry.createdAt).getTime() > MAX_AGE_MS) {
+      return undefined;
+    }
+    return entry.value as T;
+  } catch (error) {
+    // A broken cache only costs time, never the run itself
+    console.error('Failed to read the stage cache:', error);
+    return undefined;
+  }
+}
+
+export async function saveStage(key: string, value: unknown): Promise<void> {
+  try {
+    const entry: StageCacheEntry = { key, createdAt: new Date().toISOString(), value };
+    await runRequest(STAGE_CACHE_STORE, 'readwrite', store => store.put(entry));
+    await pruneStageCache();
+  } catch (error) {
+    console.error('Failed to save to the stage cache:', error);
+  }
+}
+
+async function pruneStageCache() {
+  const cutoff = new Date(Date.now() - MAX_AGE_MS).toISOString();
+  await runRequest(STAGE_CACHE_STORE, 'readwrite', store => {
+    const request = store.index('createdAt').openCursor(IDBKeyRange.upperBound(cutoff));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    return request;
+  });
+}
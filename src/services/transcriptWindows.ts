@@ -0,0 +1,210 @@
+import { SegmentReferences } from './minutesSchema';
+import { ActionItem, ActionItemPriority, ActionItemStatus, Minutes, MinutesTopic, TopicSentiment } from '../types/minutes';
+import { Transcript } from '../types/transcript';
+import { getDecisionSourceKey, getTopicSourceKey } from '../utils/citations';
+import { formatSegmentForPrompt } from '../utils/speakers';
+
+// Long meetings do not fit in one analysis request, so the transcript is
+// split into windows that are analyzed separately and merged afterwards.
+
+// The default gpt-4 model has an 8k token context; this leaves room for the
+// instructions and the JSON answer
+const MAX_WINDOW_TOKENS = 4000;
+
+// Rough English/Spanish average; close enough to stay clear of the limit
+const CHARS_PER_TOKEN = 4;
+
+// Word overlap (Jaccard) above which two titles or statements count as the same
+const SAME_TOPIC_SIMILARITY = 0.5;
+const SAME_STATEMENT_SIMILARITY = 0.7;
+
+const PRIORITY_RANK: Record<ActionItemPriority, number> = { low: 0, medium: 1, high: 2 };
+const STATUS_RANK: Record<ActionItemStatus, number> = { open: 0, in_progress: 1, done: 2 };
+
+export interface WindowAnalysis {
+  minutes: Minutes;
+  references: SegmentReferences;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Groups items in order into windows whose estimated cost stays within
+// `maxTokens`; an item that is too large on its own gets a window to itself
+function packWindows<T>(items: T[], cost: (item: T) => number, maxTokens: number): T[][] {
+  const windows: T[][] = [];
+  let current: T[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const itemTokens = cost(item);
+    if (current.length > 0 && tokens + itemTokens > maxTokens) {
+      windows.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(item);
+    tokens += itemTokens;
+  }
+  if (current.length > 0) {
+    windows.push(current);
+  }
+  return windows;
+}
+
+// Sentences of a transcript without segments; overlong ones are split at
+// word boundaries so no piece exceeds the budget
+function splitSentences(text: string, maxTokens: number): string[] {
+  const sentences = text.match(/[^.!?]+(?:[.!?]+|$)/g)?.map(sentence => sentence.trim()).filter(Boolean) ?? [];
+  return sentences.flatMap(sentence => {
+    if (estimateTokens(sentence) <= maxTokens) return [sentence];
+    const words = sentence.split(/\s+/);
+    return packWindows(words, word => estimateTokens(word) + 1, maxTokens).map(piece => piece.join(' '));
+  });
+}
+
+// Splits the transcript at segment boundaries into windows of at most
+// `maxTokens` prompt lines. Segments keep their ids so citations still
+// point into the full transcript. Transcripts without segments are split
+// at sentence boundaries instead.
+export function planTranscriptWindows(transcript: Transcript, maxTokens = MAX_WINDOW_TOKENS): Transcript[] {
+  if (transcript.segments.length === 0) {
+    const windows = packWindows(splitSentences(transcript.text, maxTokens), sentence => estimateTokens(sentence) + 1, maxTokens);
+    if (windows.length <= 1) {
+      return [transcript];
+    }
+    return windows.map(sentences => ({ ...transcript, text: sentences.join(' ') }));
+  }
+
+  const windows = packWindows(
+    transcript.segments,
+    segment => estimateTokens(formatSegmentForPrompt(transcript, segment)) + 1,
+    maxTokens
+  );
+  if (windows.length <= 1) {
+    return [transcript];
+  }
+  return windows.map(segments => ({
+    ...transcript,
+    text: segments.map(segment => segment.text.trim()).join(' '),
+    duration: segments[segments.length - 1].end - segments[0].start,
+    segments
+  }));
+}
+
+const getWords = (text: string) =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => word.length > 2));
+
+function similarity(a: string, b: string): number {
+  const wordsA = getWords(a);
+  const wordsB = getWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+// Appends the statements that aren't repeats; `carry` is told where each
+// addition ended up so its citations can follow it
+function mergeStatements(
+  target: string[],
+  additions: string[],
+  carry?: (from: number, to: number) => void
+): string[] {
+  const merged = [...target];
+  additions.forEach((statement, index) => {
+    const existing = merged.findIndex(entry => similarity(entry, statement) >= SAME_STATEMENT_SIMILARITY);
+    carry?.(index, existing === -1 ? merged.push(statement) - 1 : existing);
+  });
+  return merged;
+}
+
+function mergeActionItem(kept: ActionItem, duplicate: ActionItem): ActionItem {
+  return {
+    ...kept,
+    owner: kept.owner ?? duplicate.owner,
+    dueDate: kept.dueDate ?? duplicate.dueDate,
+    priority: PRIORITY_RANK[duplicate.priority] > PRIORITY_RANK[kept.priority] ? duplicate.priority : kept.priority,
+    // A later part of the meeting may report progress on the item
+    status: STATUS_RANK[duplicate.status] > STATUS_RANK[kept.status] ? duplicate.status : kept.status
+  };
+}
+
+function mergeSentiment(a?: TopicSentiment, b?: TopicSentiment): TopicSentiment | undefined {
+  if (!a || !b || a === b) return a ?? b;
+  return 'mixed';
+}
+
+// Combines the minutes of consecutive windows: topics with the same title are
+// joined, and repeated key points, decisions, section entries and action
+// items (also across topics) are kept once. The summaries are simply joined;
+// the caller may replace them with a combined one.
+export function mergeWindowMinutes(parts: WindowAnalysis[]): WindowAnalysis {
+  const topics: MinutesTopic[] = [];
+  let decisions: string[] = [];
+  const sections = parts[0]?.minutes.sections?.map(section => ({ ...section, items: [] as string[] }));
+
+  // References are keyed by position, which is only final once empty topics
+  // are dropped, so citations are collected per merged statement first
+  const citations: Array<{ ids: number[]; topic?: MinutesTopic; field?: 'keyPoints' | 'actionItems'; index: number }> = [];
+
+  for (const { minutes, references } of parts) {
+    minutes.topics.forEach((topic, topicIndex) => {
+      let target = topics.find(entry => similarity(entry.title, topic.title) >= SAME_TOPIC_SIMILARITY);
+      if (!target) {
+        target = { ...topic, keyPoints: [], actionItems: [] };
+        topics.push(target);
+      }
+      const merged = target;
+      merged.sentiment = mergeSentiment(merged.sentiment, topic.sentiment);
+      merged.keyPoints = mergeStatements(merged.keyPoints, topic.keyPoints, (from, index) => {
+        const ids = references[getTopicSourceKey(topicIndex, 'keyPoints', from)];
+        if (ids) citations.push({ ids, topic: merged, field: 'keyPoints', index });
+      });
+
+      topic.actionItems.forEach((item, from) => {
+        const isSame = (existing: ActionItem) =>
+          similarity(existing.description, item.description) >= SAME_STATEMENT_SIMILARITY;
+        const holder = topics.find(entry => entry.actionItems.some(isSame)) ?? merged;
+        let index = holder.actionItems.findIndex(isSame);
+        if (index === -1) {
+          index = holder.actionItems.push(item) - 1;
+        } else {
+          holder.actionItems[index] = mergeActionItem(holder.actionItems[index], item);
+        }
+        const ids = references[getTopicSourceKey(topicIndex, 'actionItems', from)];
+        if (ids) citations.push({ ids, topic: holder, field: 'actionItems', index });
+      });
+    });
+
+    decisions = mergeStatements(decisions, minutes.decisions ?? [], (from, index) => {
+      const ids = references[getDecisionSourceKey(from)];
+      if (ids) citations.push({ ids, index });
+    });
+    sections?.forEach(section => {
+      const items = minutes.sections?.find(entry => entry.id === section.id)?.items ?? [];
+      section.items = mergeStatements(section.items, items);
+    });
+  }
+
+  // A topic can be left empty when all its action items were repeats
+  const keptTopics = topics.filter(topic => topic.keyPoints.length > 0 || topic.actionItems.length > 0);
+  const references: SegmentReferences = {};
+  for (const { ids, topic, field, index } of citations) {
+    const key = topic && field ? getTopicSourceKey(keptTopics.indexOf(topic), field, index) : getDecisionSourceKey(index);
+    references[key] = [...new Set([...(references[key] ?? []), ...ids])];
+  }
+
+  const summaries = parts.flatMap(({ minutes }) => (minutes.summary ? [minutes.summary] : []));
+  return {
+    minutes: {
+      summary: summaries.length > 0 ? summaries.join('\n\n') : undefined,
+      topics: keptTopics,
+      decisions,
+      ...(sections && { sections })
+    },
+    references
+  };
+}
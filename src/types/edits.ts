@@ -0,0 +1,20 @@
+export type EditRegionMode = 'drop' | 'keep';
+
+export interface EditRegion {
+  id: string;
+  start: number;
+  end: number;
+  mode: EditRegionMode;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// The parts of the original recording that were processed, in order.
+// Transcript times are relative to the original recording, not the cut audio.
+export interface CutList {
+  sourceDuration: number;
+  kept: TimeRange[];
+}
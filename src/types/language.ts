@@ -0,0 +1,11 @@
+// ISO 639-1 codes, which is what the transcription API expects
+export type LanguageCode = 'en' | 'es';
+
+export interface LanguageSettings {
+  // Unset lets the transcription detect the spoken language
+  spoken?: LanguageCode;
+  // Unset writes the minutes in the spoken (or detected) language
+  output?: LanguageCode;
+  // Also produce the minutes in the other language, shown side by side
+  bilingual: boolean;
+}
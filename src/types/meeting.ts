@@ -0,0 +1,24 @@
+import { LanguageSettings } from './language';
+import { Minutes, MinutesTemplate } from './minutes';
+import { Transcript } from './transcript';
+
+export interface ClientData {
+  clientName: string;
+  meetingTitle: string;
+  date: string;
+  language?: LanguageSettings;
+  // A copy of the template, so later edits to it do not change how this meeting is processed
+  template?: MinutesTemplate;
+}
+
+export interface SavedMeeting {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  clientData: ClientData;
+  transcript: Transcript;
+  minutes: Minutes;
+  // Only kept when the user opts in, recordings can be large
+  audio?: Blob;
+  audioName?: string;
+}
@@ -0,0 +1,78 @@
+import { LanguageCode } from './language';
+
+export type ActionItemPriority = 'low' | 'medium' | 'high';
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done';
+
+// Overall tone of a topic's discussion, tracked for the client relationship
+export type TopicSentiment = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+export interface ActionItem {
+  description: string;
+  owner?: string;
+  // ISO date (YYYY-MM-DD) when it could be resolved, otherwise the deadline as spoken
+  dueDate?: string;
+  priority: ActionItemPriority;
+  status: ActionItemStatus;
+}
+
+export interface MinutesTopic {
+  title: string;
+  keyPoints: string[];
+  actionItems: ActionItem[];
+  sentiment?: TopicSentiment;
+}
+
+// A run of consecutive transcript segments a statement is based on, with
+// its time range in the original recording
+export interface Citation {
+  segmentIds: number[];
+  start: number;
+  end: number;
+}
+
+export interface StatementSource {
+  citations: Citation[];
+  // Nothing in the cited transcript supports the statement, so it may be made up
+  unsupported?: boolean;
+}
+
+// A list the chosen template asks for beyond the topics, e.g. decisions or risks
+export interface MinutesSection {
+  id: string;
+  title: string;
+  items: string[];
+}
+
+export interface Minutes {
+  // Short executive summary of the whole meeting
+  summary?: string;
+  topics: MinutesTopic[];
+  // Decisions made in the meeting, kept apart from the action items that follow from them
+  decisions?: string[];
+  sections?: MinutesSection[];
+  // The language the minutes are written in, when it is known
+  language?: LanguageCode;
+  // The same minutes in a second language, shown side by side
+  translation?: Minutes;
+  // Where each generated key point, decision and action item comes from, keyed
+  // by its position (see getTopicSourceKey in utils/citations)
+  sources?: Record<string, StatementSource>;
+}
+
+export interface MinutesTemplateSection {
+  // Used as the JSON key the model fills in, so it stays stable when the title changes
+  id: string;
+  title: string;
+  instructions: string;
+}
+
+// Decides what the minutes contain: extra guidance for the model plus the
+// sections to fill in next to the topics
+export interface MinutesTemplate {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  sections: MinutesTemplateSection[];
+}
@@ -0,0 +1,24 @@
+import { CutList } from './edits';
+
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface Speaker {
+  id: string;
+  name: string;
+}
+
+export interface Transcript {
+  text: string;
+  duration: number;
+  language?: string;
+  segments: TranscriptSegment[];
+  speakers?: Speaker[];
+  // Set when sections of the recording were cut before transcription
+  cutList?: CutList;
+}
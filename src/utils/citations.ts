@@ -0,0 +1,122 @@
+import { Citation, Minutes, StatementSource } from '../types/minutes';
+import { Transcript } from '../types/transcript';
+
+// Share of a statement's significant words that must appear near the cited
+// segments for it to count as supported
+const MIN_WORD_OVERLAP = 0.25;
+const MIN_WORD_LENGTH = 4;
+// Compares word stems loosely, so "compared" matches "comparison"
+const STEM_LENGTH = 5;
+
+const getWords = (text: string) =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => word.length >= MIN_WORD_LENGTH);
+
+// Sources are keyed by the statement's position, e.g. "topics.0.keyPoints.2"
+// or "decisions.1", so repeated statements keep their own citations and a
+// translation, which keeps the same structure, can share them
+export function getTopicSourceKey(topicIndex: number, field: 'keyPoints' | 'actionItems', index: number): string {
+  return `topics.${topicIndex}.${field}.${index}`;
+}
+
+export function getDecisionSourceKey(index: number): string {
+  return `decisions.${index}`;
+}
+
+function getStatements(minutes: Minutes): Array<{ key: string; text: string }> {
+  return [
+    ...minutes.topics.flatMap((topic, topicIndex) => [
+      ...topic.keyPoints.map((text, index) => ({ key: getTopicSourceKey(topicIndex, 'keyPoints', index), text })),
+      ...topic.actionItems.map((item, index) => ({
+        key: getTopicSourceKey(topicIndex, 'actionItems', index),
+        text: item.description
+      }))
+    ]),
+    ...(minutes.decisions ?? []).map((text, index) => ({ key: getDecisionSourceKey(index), text }))
+  ];
+}
+
+// Groups cited segments into runs of consecutive segments, each with its time range
+function buildCitations(segmentIds: number[], transcript: Transcript): Citation[] {
+  const ids = [...new Set(segmentIds)]
+    .filter(id => transcript.segments.some(segment => segment.id === id))
+    .sort((a, b) => a - b);
+  const citations: Citation[] = [];
+
+  for (const id of ids) {
+    const segment = transcript.segments.find(s => s.id === id)!;
+    const last = citations[citations.length - 1];
+    if (last && id === last.segmentIds[last.segmentIds.length - 1] + 1) {
+      last.segmentIds.push(id);
+      last.end = segment.end;
+    } else {
+      citations.push({ segmentIds: [id], start: segment.start, end: segment.end });
+    }
+  }
+
+  return citations;
+}
+
+// A statement is supported when enough of its wording appears in the cited
+// segments or the ones right around them
+function isStatementSupported(statement: string, citations: Citation[], transcript: Transcript): boolean {
+  if (citations.length === 0) return false;
+
+  const cited = new Set(citations.flatMap(citation => citation.segmentIds).flatMap(id => [id - 1, id, id + 1]));
+  const stems = new Set(
+    transcript.segments
+      .filter(segment => cited.has(segment.id))
+      .flatMap(segment => getWords(segment.text))
+      .map(word => word.slice(0, STEM_LENGTH))
+  );
+  const words = getWords(statement);
+  if (words.length === 0) return true;
+
+  const found = words.filter(word => stems.has(word.slice(0, STEM_LENGTH))).length;
+  return found / words.length >= MIN_WORD_OVERLAP;
+}
+
+// Resolves the segment numbers the model cited into time ranges and flags
+// statements without support. Wording is only compared when the minutes are
+// in the spoken language; a translation shares too few words with the source.
+export function attachSources(
+  minutes: Minutes,
+  references: Record<string, number[]>,
+  transcript: Transcript,
+  compareWording: boolean
+): Minutes {
+  const sources: Record<string, StatementSource> = {};
+
+  for (const { key, text } of getStatements(minutes)) {
+    const segmentIds = references[key];
+    if (!segmentIds) continue;
+    const citations = buildCitations(segmentIds, transcript);
+    const supported = compareWording
+      ? isStatementSupported(text, citations, transcript)
+      : citations.length > 0;
+    sources[key] = supported ? { citations } : { citations, unsupported: true };
+  }
+
+  return { ...minutes, sources };
+}
+
+// A translation keeps the structure of the minutes, so it shares their
+// sources; a list that came back with a different length is left without,
+// since its positions may no longer line up
+export function shareSources(minutes: Minutes, translation: Minutes): Minutes {
+  const { sources } = minutes;
+  if (!sources) return translation;
+
+  const decisions = minutes.decisions ?? [];
+  const keys = [
+    ...minutes.topics.flatMap((topic, topicIndex) => (['keyPoints', 'actionItems'] as const).flatMap(field =>
+      topic[field].length === translation.topics[topicIndex]?.[field].length
+        ? topic[field].map((_, index) => getTopicSourceKey(topicIndex, field, index))
+        : []
+    )),
+    ...(decisions.length === (translation.decisions ?? []).length ? decisions.map((_, index) => getDecisionSourceKey(index)) : [])
+  ];
+  return {
+    ...translation,
+    sources: Object.fromEntries(keys.flatMap(key => (sources[key] ? [[key, sources[key]]] : [])))
+  };
+}
@@ -0,0 +1,138 @@
+import { CutList, EditRegion, TimeRange } from '../types/edits';
+import { Transcript } from '../types/transcript';
+
+// Ranges shorter than this are left over from sloppy selections
+const MIN_RANGE_SECONDS = 0.05;
+
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TimeRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function subtractRange(ranges: TimeRange[], cut: TimeRange): TimeRange[] {
+  return ranges.flatMap(range => {
+    if (cut.end <= range.start || cut.start >= range.end) return [range];
+    return [
+      { start: range.start, end: cut.start },
+      { start: cut.end, end: range.end }
+    ].filter(part => part.end - part.start > 0);
+  });
+}
+
+// "Keep" regions select what is processed (everything when there are none),
+// then "drop" regions are removed from that.
+export function getCutList(regions: EditRegion[], sourceDuration: number): CutList {
+  const clamp = (region: EditRegion): TimeRange => ({
+    start: Math.max(0, Math.min(region.start, sourceDuration)),
+    end: Math.max(0, Math.min(region.end, sourceDuration))
+  });
+
+  const keeps = regions.filter(region => region.mode === 'keep').map(clamp);
+  let kept = keeps.length > 0 ? mergeRanges(keeps) : [{ start: 0, end: sourceDuration }];
+  for (const drop of regions.filter(region => region.mode === 'drop').map(clamp)) {
+    kept = subtractRange(kept, drop);
+  }
+
+  return {
+    sourceDuration,
+    kept: kept.filter(range => range.end - range.start >= MIN_RANGE_SECONDS)
+  };
+}
+
+// Removes long silences from the kept ranges, leaving some padding at each edge
+export function removeSilences(
+  cutList: CutList,
+  silences: TimeRange[],
+  minSeconds: number,
+  paddingSeconds: number
+): CutList {
+  const kept = silences
+    .filter(silence => silence.end - silence.start >= minSeconds)
+    .reduce(
+      (ranges, silence) => subtractRange(ranges, {
+        start: silence.start + paddingSeconds,
+        end: silence.end - paddingSeconds
+      }),
+      cutList.kept
+    );
+
+  return {
+    ...cutList,
+    kept: kept.filter(range => range.end - range.start >= MIN_RANGE_SECONDS)
+  };
+}
+
+export function getKeptDuration(cutList: CutList): number {
+  return cutList.kept.reduce((total, range) => total + range.end - range.start, 0);
+}
+
+export function getRemovedRanges(cutList: CutList): TimeRange[] {
+  return cutList.kept.reduce(
+    (removed, range) => subtractRange(removed, range),
+    [{ start: 0, end: cutList.sourceDuration }]
+  );
+}
+
+// ffmpeg filter that keeps only the listed ranges and closes the gaps
+export function buildSelectFilter(kept: TimeRange[]): string {
+  if (kept.length === 0) {
+    throw new Error('Nothing is left to transcribe once the cut parts and silences are removed');
+  }
+  const expression = kept
+    .map(range => `between(t,${range.start.toFixed(3)},${range.end.toFixed(3)})`)
+    .join('+');
+  return `aselect='${expression}',asetpts=N/SR/TB`;
+}
+
+// Converts a time in the cut audio to the matching time in the original recording
+export function toSourceTime(time: number, kept: TimeRange[]): number {
+  let offset = 0;
+  for (const range of kept) {
+    const length = range.end - range.start;
+    if (time <= offset + length) {
+      return range.start + (time - offset);
+    }
+    offset += length;
+  }
+  return kept.length > 0 ? kept[kept.length - 1].end : time;
+}
+
+export function mapTranscriptToSource(transcript: Transcript, cutList: CutList): Transcript {
+  return {
+    ...transcript,
+    duration: cutList.sourceDuration,
+    segments: transcript.segments.map(segment => ({
+      ...segment,
+      start: toSourceTime(segment.start, cutList.kept),
+      end: toSourceTime(segment.end, cutList.kept)
+    })),
+    cutList
+  };
+}
+
+// For transcripts that already use source times (live transcription),
+// drops the segments that fall into removed sections
+export function filterTranscriptToCutList(transcript: Transcript, cutList: CutList): Transcript {
+  const segments = transcript.segments
+    .filter(segment => {
+      const midpoint = (segment.start + segment.end) / 2;
+      return cutList.kept.some(range => midpoint >= range.start && midpoint <= range.end);
+    })
+    .map((segment, id) => ({ ...segment, id }));
+
+  return {
+    ...transcript,
+    text: segments.map(segment => segment.text.trim()).join(' '),
+    segments,
+    cutList
+  };
+}
@@ -0,0 +1,29 @@
+import { LanguageCode, LanguageSettings } from '../types/language';
+
+export const LANGUAGES: Array<{ code: LanguageCode; name: string }> = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' }
+];
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = { bilingual: false };
+
+// Whisper reports the detected language by name ("spanish") rather than by code
+export function toLanguageCode(value?: string): LanguageCode | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return LANGUAGES.find(language => language.code === normalized || language.name.toLowerCase() === normalized)?.code;
+}
+
+export function getLanguageName(value?: string): string {
+  const code = toLanguageCode(value);
+  if (code) return LANGUAGES.find(language => language.code === code)!.name;
+  return value ? value.charAt(0).toUpperCase() + value.slice(1) : 'Unknown';
+}
+
+// Bilingual minutes pair English with Spanish and anything else with English
+export function getTranslationLanguage(language?: LanguageCode): LanguageCode {
+  return language === 'en' ? 'es' : 'en';
+}
+
+export function getOutputLanguage(settings: LanguageSettings | undefined, detected?: string): LanguageCode | undefined {
+  return settings?.output ?? settings?.spoken ?? toLanguageCode(detected);
+}
@@ -0,0 +1,151 @@
+import { ActionItem, Minutes, MinutesTopic, StatementSource } from '../types/minutes';
+import { getDecisionSourceKey, getTopicSourceKey } from './citations';
+
+export type TopicListField = 'keyPoints' | 'actionItems';
+
+export type TopicItem<F extends TopicListField> = MinutesTopic[F][number];
+
+export interface ItemPosition {
+  topic: number;
+  index: number;
+}
+
+// Pure helpers used by the minutes editor; each returns a new Minutes object
+
+// Sources are keyed by position, so when statements are removed or moved the
+// same change is applied to their keys; a removed statement's source is dropped
+function moveSources(
+  minutes: Minutes,
+  updated: Minutes,
+  lists: string[][],
+  rearrange: (lists: string[][]) => string[][],
+  getKey: (listIndex: number, index: number) => string
+): Minutes {
+  const { sources } = minutes;
+  if (!sources) return updated;
+
+  const moved: Record<string, StatementSource> = { ...sources };
+  lists.flat().forEach(key => delete moved[key]);
+  rearrange(lists).forEach((keys, listIndex) => keys.forEach((key, index) => {
+    if (sources[key]) moved[getKey(listIndex, index)] = sources[key];
+  }));
+  return { ...updated, sources: moved };
+}
+
+const getTopicKeys = (minutes: Minutes, field: TopicListField) =>
+  minutes.topics.map((topic, topicIndex) => topic[field].map((_, index) => getTopicSourceKey(topicIndex, field, index)));
+
+// Applies a change to the topics' key point and action item lists to their sources too
+function moveTopicSources(minutes: Minutes, updated: Minutes, fields: TopicListField[], rearrange: (lists: string[][]) => string[][]) {
+  return fields.reduce(
+    (result, field) => moveSources(
+      result,
+      result,
+      getTopicKeys(minutes, field),
+      rearrange,
+      (topicIndex, index) => getTopicSourceKey(topicIndex, field, index)
+    ),
+    updated
+  );
+}
+
+function moveWithin<T>(list: T[], from: number, to: number): T[] {
+  const result = [...list];
+  const [moved] = result.splice(from, 1);
+  result.splice(from < to ? to - 1 : to, 0, moved);
+  return result;
+}
+
+// Moves an entry within a list or into another list, inserting it before `to.index`
+function moveBetween<T>(lists: T[][], from: ItemPosition, to: ItemPosition): T[][] {
+  const result = lists.map(list => [...list]);
+  const [moved] = result[from.topic].splice(from.index, 1);
+  const target = from.topic === to.topic && from.index < to.index ? to.index - 1 : to.index;
+  result[to.topic].splice(target, 0, moved);
+  return result;
+}
+
+export function updateTopic(minutes: Minutes, topicIndex: number, changes: Partial<MinutesTopic>): Minutes {
+  return {
+    ...minutes,
+    topics: minutes.topics.map((topic, i) => (i === topicIndex ? { ...topic, ...changes } : topic))
+  };
+}
+
+export function addTopic(minutes: Minutes): Minutes {
+  return {
+    ...minutes,
+    topics: [...minutes.topics, { title: 'New topic', keyPoints: [], actionItems: [] }]
+  };
+}
+
+export function removeTopic(minutes: Minutes, topicIndex: number): Minutes {
+  const remove = <T>(list: T[]) => list.filter((_, i) => i !== topicIndex);
+  return moveTopicSources(minutes, { ...minutes, topics: remove(minutes.topics) }, ['keyPoints', 'actionItems'], remove);
+}
+
+export function moveTopic(minutes: Minutes, from: number, to: number): Minutes {
+  const move = <T>(list: T[]) => moveWithin(list, from, to);
+  return moveTopicSources(minutes, { ...minutes, topics: move(minutes.topics) }, ['keyPoints', 'actionItems'], move);
+}
+
+export const createActionItem = (description = ''): ActionItem => ({
+  description,
+  priority: 'medium',
+  status: 'open'
+});
+
+export function updateItem<F extends TopicListField>(
+  minutes: Minutes,
+  field: F,
+  position: ItemPosition,
+  value: TopicItem<F>
+): Minutes {
+  const items: TopicItem<F>[] = [...minutes.topics[position.topic][field]];
+  items[position.index] = value;
+  return updateTopic(minutes, position.topic, { [field]: items });
+}
+
+export function addItem(minutes: Minutes, field: TopicListField, topicIndex: number): Minutes {
+  const blank = field === 'keyPoints' ? '' : createActionItem();
+  return updateTopic(minutes, topicIndex, { [field]: [...minutes.topics[topicIndex][field], blank] });
+}
+
+export function removeItem(minutes: Minutes, field: TopicListField, position: ItemPosition): Minutes {
+  const remove = <T>(lists: T[][]) =>
+    lists.map((list, topicIndex) => (topicIndex === position.topic ? list.filter((_, i) => i !== position.index) : list));
+  const updated = updateTopic(minutes, position.topic, {
+    [field]: minutes.topics[position.topic][field].filter((_, i) => i !== position.index)
+  });
+  return moveTopicSources(minutes, updated, [field], remove);
+}
+
+// Moves an item within a topic or into another topic, inserting it before `to.index`
+export function moveItem(minutes: Minutes, field: TopicListField, from: ItemPosition, to: ItemPosition): Minutes {
+  const lists = moveBetween(minutes.topics.map(topic => topic[field] as TopicItem<typeof field>[]), from, to);
+  const updated = {
+    ...minutes,
+    topics: minutes.topics.map((topic, i) => ({ ...topic, [field]: lists[i] }))
+  };
+  return moveTopicSources(minutes, updated, [field], keys => moveBetween(keys, from, to));
+}
+
+export function removeDecision(minutes: Minutes, index: number): Minutes {
+  const remove = <T>(lists: T[][]) => lists.map(list => list.filter((_, i) => i !== index));
+  const decisions = minutes.decisions ?? [];
+  return moveSources(
+    minutes,
+    { ...minutes, decisions: decisions.filter((_, i) => i !== index) },
+    [decisions.map((_, i) => getDecisionSourceKey(i))],
+    remove,
+    (_, i) => getDecisionSourceKey(i)
+  );
+}
+
+// Replaces the entries of a template section, e.g. after editing, adding or removing one
+export function updateSectionItems(minutes: Minutes, sectionIndex: number, items: string[]): Minutes {
+  return {
+    ...minutes,
+    sections: minutes.sections?.map((section, i) => (i === sectionIndex ? { ...section, items } : section))
+  };
+}
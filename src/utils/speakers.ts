@@ -0,0 +1,54 @@
+import { Speaker, Transcript, TranscriptSegment } from '../types/transcript';
+
+const SPEAKER_COLORS = ['#6366F1', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#EC4899', '#84CC16'];
+
+export interface SpeakerTurn {
+  speaker: Speaker;
+  start: number;
+  end: number;
+}
+
+export function getSpeakerColor(speakers: Speaker[], speakerId: string): string {
+  const index = speakers.findIndex(speaker => speaker.id === speakerId);
+  return SPEAKER_COLORS[Math.max(0, index) % SPEAKER_COLORS.length];
+}
+
+export function getSpeakerName(speakers: Speaker[] | undefined, speakerId: string | undefined): string | undefined {
+  if (!speakerId) return undefined;
+  return speakers?.find(speaker => speaker.id === speakerId)?.name ?? speakerId;
+}
+
+// Merges consecutive segments of the same speaker into continuous turns
+export function getSpeakerTurns(transcript: Transcript): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  const speakers = transcript.speakers ?? [];
+
+  for (const segment of transcript.segments) {
+    const speaker = speakers.find(s => s.id === segment.speaker);
+    if (!speaker) continue;
+
+    const last = turns[turns.length - 1];
+    if (last && last.speaker.id === speaker.id) {
+      last.end = segment.end;
+    } else {
+      turns.push({ speaker, start: segment.start, end: segment.end });
+    }
+  }
+
+  return turns;
+}
+
+export function formatSegmentForPrompt(transcript: Transcript, segment: TranscriptSegment): string {
+  const name = transcript.speakers?.length ? getSpeakerName(transcript.speakers, segment.speaker) ?? 'Unknown' : null;
+  return `[${segment.id}] ${name ? `${name}: ` : ''}${segment.text.trim()}`;
+}
+
+// Renders the transcript as "[segment] Name: text" lines so the model can
+// attribute statements and cite the segments they come from
+export function formatTranscriptForPrompt(transcript: Transcript): string {
+  if (transcript.segments.length === 0) {
+    return transcript.text;
+  }
+
+  return transcript.segments.map(segment => formatSegmentForPrompt(transcript, segment)).join('\n');
+}
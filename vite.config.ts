@@ -1,18 +1,52 @@
-import { defineConfig } from 'vite';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PRECACHE_PLACEHOLDER = 'const BUILD_FILES = [];';
+
+// Writes every file of the build into the service worker (public/sw.js) so it
+// precaches the lazily loaded chunks and the ffmpeg worker too. The list
+// changes with each build, so browsers also pick up the new worker.
+function precacheBuildFiles(): Plugin {
+  let files: string[] = [];
+  return {
+    name: 'precache-build-files',
+    apply: 'build',
+    generateBundle(_, bundle) {
+      files = Object.keys(bundle).filter(fileName => fileName !== 'index.html').sort();
+    },
+    async writeBundle({ dir }) {
+      const workerPath = join(dir!, 'sw.js');
+      const source = await readFile(workerPath, 'utf8');
+      if (!source.includes(PRECACHE_PLACEHOLDER)) {
+        throw new Error(`${workerPath} has no "${PRECACHE_PLACEHOLDER}" line to fill in`);
+      }
+      await writeFile(workerPath, source.replace(PRECACHE_PLACEHOLDER, `const BUILD_FILES = ${JSON.stringify(files)};`));
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), precacheBuildFiles()],
   optimizeDeps: {
     exclude: ['@ffmpeg/ffmpeg', '@ffmpeg/util', '@ffmpeg/core']
   },
   server: {
+    proxy: {
+      '/api': 'http://localhost:8787'
+    },
     headers: {
       'Cross-Origin-Embedder-Policy': 'require-corp',
       'Cross-Origin-Opener-Policy': 'same-origin',
       'Cross-Origin-Resource-Policy': 'cross-origin'
     }
   },
+  preview: {
+    proxy: {
+      '/api': 'http://localhost:8787'
+    }
+  },
   build: {
     rollupOptions: {
       output: {